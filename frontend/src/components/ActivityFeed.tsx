@@ -0,0 +1,99 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { Activity, Vote, FilePlus, UserPlus, ExternalLink, Radio } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { GovernanceActivity, VoteChoiceLabels } from '@/types/web3'
+import { formatAddress, getExplorerLink } from '@/utils/web3'
+import { TIME_CONSTANTS } from '@/utils/constants'
+
+interface ActivityFeedProps {
+  // Only show events for this proposal
+  proposalId?: number
+  limit?: number
+  className?: string
+}
+
+const KIND_ICONS = {
+  vote: Vote,
+  proposal: FilePlus,
+  shareholder: UserPlus,
+}
+
+const describe = (item: GovernanceActivity) => {
+  const who = item.account ? formatAddress(item.account) : ''
+  switch (item.kind) {
+    case 'vote':
+      return item.choice !== null
+        ? `${who} voted ${VoteChoiceLabels[item.choice]} on #${item.proposalId}`
+        : `${who} voted on #${item.proposalId}`
+    case 'proposal':
+      return `Proposal #${item.proposalId} created`
+    case 'shareholder':
+      return `${who} registered as a shareholder`
+  }
+}
+
+// Events received while the page is open, so a meeting can watch votes arrive
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ proposalId, limit = 10, className = '' }) => {
+  const { activity, eventTransport, network } = useWeb3()
+
+  const items = activity
+    .filter((item) => proposalId === undefined || item.proposalId === proposalId)
+    .slice(0, limit)
+
+  return (
+    <div className={`glass-card p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+          <Activity className="h-5 w-5" />
+          <span>Live Activity</span>
+        </h2>
+        {eventTransport && (
+          <span className="flex items-center space-x-1 text-xs text-gray-400">
+            <Radio className="h-3 w-3 text-green-400 animate-pulse" />
+            <span>
+              {eventTransport === 'websocket'
+                ? 'Live'
+                : `Checking every ${TIME_CONSTANTS.POLLING_INTERVAL / 1000}s`}
+            </span>
+          </span>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-gray-400 text-sm">New votes and proposals will appear here as they are confirmed.</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item) => {
+            const Icon = KIND_ICONS[item.kind]
+            const txLink = getExplorerLink(item.transactionHash, 'tx', network)
+            return (
+              <li key={item.id} className="flex items-center justify-between text-sm text-gray-200">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Icon className="h-4 w-4 text-blue-400 flex-shrink-0" />
+                  {item.proposalId !== null && proposalId === undefined ? (
+                    <Link to={`/proposals/${item.proposalId}`} className="truncate hover:text-blue-300">
+                      {describe(item)}
+                    </Link>
+                  ) : (
+                    <span className="truncate">{describe(item)}</span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 text-xs text-gray-400 flex-shrink-0 ml-2">
+                  <span>{new Date(item.receivedAt).toLocaleTimeString()}</span>
+                  {txLink && (
+                    <a href={txLink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ActivityFeed
\ No newline at end of file
@@ -0,0 +1,26 @@
+import React from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+
+// Shown on every page while the contract disagrees with the network's deployment manifest
+const DeploymentWarningBanner: React.FC = () => {
+  const { contract } = useWeb3()
+
+  if (contract.deploymentWarnings.length === 0) return null
+
+  return (
+    <div className="mb-6 bg-red-500/20 border border-red-500/50 rounded-lg p-4 text-red-100">
+      <div className="flex items-center space-x-2 font-semibold">
+        <AlertTriangle className="h-5 w-5 flex-shrink-0 text-red-300" />
+        <span>This app may be pointing at the wrong contract</span>
+      </div>
+      <ul className="mt-2 ml-7 list-disc space-y-1 text-sm">
+        {contract.deploymentWarnings.map((warning) => (
+          <li key={warning}>{warning}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default DeploymentWarningBanner
\ No newline at end of file
@@ -0,0 +1,57 @@
+import React, { useState } from 'react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { Globe, ChevronDown, Check } from 'lucide-react'
+
+const NetworkSelector: React.FC = () => {
+  const { network, supportedNetworks, wallet, switchNetwork } = useWeb3()
+  const [isOpen, setIsOpen] = useState(false)
+
+  // Connected to a chain outside SUPPORTED_NETWORKS
+  const isMismatch = wallet.isConnected && wallet.chainId !== network.chainId
+
+  const handleSelect = async (chainId: number) => {
+    setIsOpen(false)
+    if (chainId !== network.chainId || isMismatch) {
+      await switchNetwork(chainId)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-lg border text-sm transition-all duration-200 ${
+          isMismatch
+            ? 'bg-red-500/20 text-red-300 border-red-500/30 hover:bg-red-500/30'
+            : 'bg-white/10 text-gray-200 border-white/20 hover:bg-white/20'
+        }`}
+      >
+        <Globe className="h-4 w-4" />
+        <span>{isMismatch ? 'Wrong Network' : network.name}</span>
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-0" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-56 bg-gray-800/95 backdrop-blur-md rounded-lg shadow-lg border border-gray-600 z-10 p-2">
+            {supportedNetworks.map((option) => (
+              <button
+                key={option.chainId}
+                onClick={() => handleSelect(option.chainId)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-200 hover:bg-white/10 rounded-md transition-all duration-200"
+              >
+                <span>{option.name}</span>
+                {option.chainId === network.chainId && !isMismatch && (
+                  <Check className="h-4 w-4 text-green-400" />
+                )}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default NetworkSelector
\ No newline at end of file
@@ -0,0 +1,39 @@
+import React from 'react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { Eye, Wallet } from 'lucide-react'
+
+interface ReadOnlyBannerProps {
+  action?: string
+  className?: string
+}
+
+// Shown to visitors browsing without a wallet; writes require connecting
+const ReadOnlyBanner: React.FC<ReadOnlyBannerProps> = ({
+  action = 'vote or create proposals',
+  className = ''
+}) => {
+  const { wallet, connectWallet } = useWeb3()
+
+  if (wallet.isConnected || wallet.isRestoring) return null
+
+  return (
+    <div className={`bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 ${className}`}>
+      <div className="flex items-center space-x-3 text-blue-200">
+        <Eye className="h-5 w-5 flex-shrink-0" />
+        <span className="text-sm">
+          You are browsing in read-only mode. Connect your wallet to {action}.
+        </span>
+      </div>
+      <button
+        onClick={() => connectWallet()}
+        disabled={wallet.isConnecting}
+        className="btn-primary text-sm flex items-center justify-center space-x-2 disabled:opacity-50"
+      >
+        <Wallet className="h-4 w-4" />
+        <span>{wallet.isConnecting ? 'Connecting...' : 'Connect Wallet'}</span>
+      </button>
+    </div>
+  )
+}
+
+export default ReadOnlyBanner
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { ShieldAlert, Wallet } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AccountRole } from '@/types/web3'
+
+interface RequireRoleProps {
+  role: AccountRole
+  // What the page is for, e.g. "create proposals"
+  action: string
+  children: React.ReactNode
+}
+
+const ROLE_LABELS: Record<AccountRole, string> = {
+  owner: 'the company owner',
+  board: 'board members',
+  shareholder: 'registered shareholders',
+}
+
+// Route guard: renders its page only for accounts holding the role on-chain
+const RequireRole: React.FC<RequireRoleProps> = ({ role, action, children }) => {
+  const { wallet, rolesLoading, hasRole, connectWallet } = useWeb3()
+
+  if (wallet.isRestoring || rolesLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Checking your permissions..." />
+      </div>
+    )
+  }
+
+  if (hasRole(role)) return <>{children}</>
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center">
+      <div className="glass-card p-8 text-center max-w-md mx-auto">
+        <ShieldAlert className="h-16 w-16 text-yellow-400 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-white mb-4">Restricted</h2>
+        <p className="text-gray-300 mb-6">
+          Only {ROLE_LABELS[role]} can {action}.
+          {!wallet.isConnected && ' Connect a wallet that holds this role to continue.'}
+        </p>
+        {wallet.isConnected ? (
+          <Link to="/" className="btn-secondary">
+            Back to Home
+          </Link>
+        ) : (
+          <button onClick={() => connectWallet()} className="btn-primary inline-flex items-center space-x-2">
+            <Wallet className="h-4 w-4" />
+            <span>Connect Wallet</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default RequireRole
\ No newline at end of file
@@ -0,0 +1,177 @@
+import React, { useRef } from 'react'
+import { Upload, Play, Pause, Trash2, ExternalLink } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { useShareholderImport } from '@/hooks/useShareholderImport'
+import { formatAddress, getExplorerLink } from '@/utils/web3'
+import { ImportAction, ImportRowStatus } from '@/utils/shareholders'
+
+interface ShareholderImportPanelProps {
+  // Called after a run so the registry list can pick up new events
+  onImported?: () => void
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  add: 'bg-green-500/20 text-green-300',
+  update: 'bg-blue-500/20 text-blue-300',
+  unchanged: 'bg-gray-500/20 text-gray-300',
+  invalid: 'bg-red-500/20 text-red-300',
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  pending: 'text-gray-300',
+  submitted: 'text-yellow-300',
+  confirmed: 'text-green-300',
+  failed: 'text-red-300',
+  skipped: 'text-gray-500',
+}
+
+const ShareholderImportPanel: React.FC<ShareholderImportPanelProps> = ({ onImported }) => {
+  const { network } = useWeb3()
+  const { queue, remaining, isPreviewing, isRunning, preview, run, pause, discard } = useShareholderImport()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    await preview(await file.text())
+  }
+
+  const handleRun = async () => {
+    await run()
+    onImported?.()
+  }
+
+  const counts = queue?.rows.reduce<Record<ImportAction, number>>(
+    (totals, row) => ({ ...totals, [row.action]: totals[row.action] + 1 }),
+    { add: 0, update: 0, unchanged: 0, invalid: 0 }
+  )
+  const hasStarted = queue?.rows.some((row) => row.status === 'submitted' || row.status === 'confirmed')
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center space-x-2">
+            <Upload className="h-5 w-5" />
+            <span>Import from CSV</span>
+          </h2>
+          <p className="text-gray-400 text-sm">
+            One shareholder per line: <span className="font-mono">address,shares,name</span>
+          </p>
+        </div>
+        {!queue && (
+          <>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isPreviewing}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+            >
+              {isPreviewing ? <LoadingSpinner size="small" /> : <Upload className="h-4 w-4" />}
+              <span>{isPreviewing ? 'Reading register...' : 'Choose CSV File'}</span>
+            </button>
+          </>
+        )}
+      </div>
+
+      {queue && counts && (
+        <>
+          {/* Dry-run summary */}
+          <div className="flex flex-wrap gap-2 mb-4 text-sm">
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.add}`}>{counts.add} new</span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.update}`}>{counts.update} updated</span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.unchanged}`}>{counts.unchanged} unchanged</span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.invalid}`}>{counts.invalid} invalid</span>
+            <span className="px-2 py-1 text-gray-400">{remaining} transactions remaining</span>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4">Line</th>
+                  <th className="py-2 pr-4">Address</th>
+                  <th className="py-2 pr-4 text-right">Shares</th>
+                  <th className="py-2 pr-4">Name</th>
+                  <th className="py-2 pr-4">Change</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {queue.rows.map((row) => {
+                  const txLink = row.txHash ? getExplorerLink(row.txHash, 'tx', network) : null
+                  return (
+                    <tr key={row.line} className="border-b border-white/5 text-gray-200 align-top">
+                      <td className="py-2 pr-4 text-gray-400">{row.line}</td>
+                      <td className="py-2 pr-4 font-mono" title={row.entry.address}>
+                        {row.entry.address ? formatAddress(row.entry.address) : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {row.current && row.current.shares !== row.entry.shares && (
+                          <span className="text-gray-500 line-through mr-2">{row.current.shares.toLocaleString()}</span>
+                        )}
+                        {Number.isFinite(row.entry.shares) ? row.entry.shares.toLocaleString() : '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {row.current && row.current.name !== row.entry.name && (
+                          <span className="text-gray-500 line-through mr-2">{row.current.name}</span>
+                        )}
+                        {row.entry.name || '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded text-xs ${ACTION_STYLES[row.action]}`}>
+                          {row.action}
+                        </span>
+                      </td>
+                      <td className={`py-2 ${STATUS_STYLES[row.status]}`}>
+                        <div className="flex items-center space-x-1">
+                          <span>{row.status}</span>
+                          {txLink && (
+                            <a href={txLink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </div>
+                        {row.error && <div className="text-xs text-red-300">{row.error}</div>}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning ? (
+              <button onClick={pause} className="btn-secondary flex items-center space-x-2">
+                <Pause className="h-4 w-4" />
+                <span>Pause Import</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={remaining === 0}
+                className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Play className="h-4 w-4" />
+                <span>{hasStarted ? 'Resume Import' : `Submit ${remaining} Transactions`}</span>
+              </button>
+            )}
+            <button
+              onClick={discard}
+              disabled={isRunning}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>{remaining === 0 ? 'Done' : 'Discard Import'}</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ShareholderImportPanel
\ No newline at end of file
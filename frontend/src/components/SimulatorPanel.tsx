@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { Clock, Cpu, RotateCcw, ChevronDown, ChevronUp } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { useSimulatedChain } from '@/hooks/useSimulatedChain'
+import { deleteDatabase } from '@/indexer/indexedDb'
+import { clearResultRecords } from '@/utils/resultStore'
+import { unlinkDescriptions } from '@/utils/descriptionStore'
+import { INDEXER_CONFIG, SIMULATED_CONFIG } from '@/utils/constants'
+import { formatAddress, formatTimestamp, getChainTime } from '@/utils/web3'
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+const TIME_STEPS: Array<{ label: string; seconds: number }> = [
+  { label: '+1h', seconds: HOUR },
+  { label: '+1d', seconds: DAY },
+  { label: '+7d', seconds: 7 * DAY },
+]
+
+// Controls for the in-browser simulated chain: time travel, account impersonation and reset
+const SimulatorPanel: React.FC = () => {
+  const { network } = useWeb3()
+  const queryClient = useQueryClient()
+  const { blockNumber, account, accounts, advanceTime, selectAccount, reset } = useSimulatedChain()
+  const [isOpen, setIsOpen] = useState(true)
+  const [now, setNow] = useState(getChainTime)
+
+  const isSimulated = network.chainId === SIMULATED_CONFIG.chainId
+
+  useEffect(() => {
+    if (!isSimulated) return
+    const timer = setInterval(() => setNow(getChainTime()), 1000)
+    return () => clearInterval(timer)
+  }, [isSimulated])
+
+  if (!isSimulated) return null
+
+  const handleAdvance = (seconds: number, label: string) => {
+    advanceTime(seconds)
+    setNow(getChainTime())
+    // Deadlines moved without any contract event, so refetch everything
+    queryClient.invalidateQueries()
+    toast.success(`Simulated clock moved ${label}`)
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset the simulated chain to its seeded state? Votes and proposals made here are lost.')) return
+
+    reset()
+    // Browser-side caches would otherwise describe the old chain
+    const { chainId, contractAddress } = SIMULATED_CONFIG
+    try {
+      await Promise.all([
+        deleteDatabase(`${INDEXER_CONFIG.DB_PREFIX}:${chainId}:${contractAddress.toLowerCase()}`),
+        clearResultRecords(chainId, contractAddress),
+        unlinkDescriptions(chainId, contractAddress),
+      ])
+    } catch (error) {
+      console.warn('Could not clear the simulated chain caches:', error)
+    }
+    window.location.reload()
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-72 bg-gray-800/95 backdrop-blur-md rounded-lg shadow-lg border border-purple-500/40 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 text-purple-200"
+      >
+        <span className="flex items-center space-x-2">
+          <Cpu className="h-4 w-4" />
+          <span className="font-medium">Simulated Chain</span>
+          <span className="text-xs text-gray-400">#{blockNumber}</span>
+        </span>
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 border-t border-gray-700 pt-3">
+          <div>
+            <div className="flex items-center space-x-2 text-gray-300">
+              <Clock className="h-4 w-4" />
+              <span>{formatTimestamp(now)}</span>
+            </div>
+            <div className="flex gap-2 mt-2">
+              {TIME_STEPS.map((step) => (
+                <button
+                  key={step.label}
+                  onClick={() => handleAdvance(step.seconds, step.label)}
+                  className="flex-1 px-2 py-1 rounded bg-purple-500/20 text-purple-200 hover:bg-purple-500/30"
+                >
+                  {step.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="simulated-account" className="block text-xs text-gray-400 mb-1">
+              Simulated Wallet account
+            </label>
+            <select
+              id="simulated-account"
+              value={account.address}
+              onChange={(e) => selectAccount(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-200"
+            >
+              {accounts.map((option) => (
+                <option key={option.address} value={option.address}>
+                  {option.label} ({formatAddress(option.address)})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleReset}
+            className="w-full flex items-center justify-center space-x-2 px-2 py-1 rounded text-gray-300 hover:bg-white/10"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Reset chain</span>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SimulatorPanel
\ No newline at end of file
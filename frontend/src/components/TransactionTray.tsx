@@ -0,0 +1,109 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Receipt, ExternalLink, Loader2 } from 'lucide-react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { useTransactions } from '@/hooks/useTransactions'
+import { TransactionStatus } from '@/types/web3'
+import { getExplorerLink, getNetworkConfig } from '@/utils/web3'
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  mined: 'bg-blue-500/20 text-blue-300',
+  confirmed: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  replaced: 'bg-gray-500/20 text-gray-300',
+  cancelled: 'bg-gray-500/20 text-gray-300',
+}
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Pending',
+  mined: 'Confirming',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+  cancelled: 'Cancelled',
+}
+
+// Header button listing the connected account's recent transactions
+const TransactionTray: React.FC = () => {
+  const { wallet } = useWeb3()
+  const { transactions, clearSettled } = useTransactions()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const mine = transactions.filter(
+    (record) => !wallet.account || record.from.toLowerCase() === wallet.account.toLowerCase()
+  )
+  const pendingCount = mine.filter((record) => record.status === 'pending').length
+
+  if (mine.length === 0) return null
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative flex items-center space-x-2 px-3 py-2 rounded-lg text-gray-300 hover:bg-white/10 hover:text-white transition-all duration-200"
+        title="Recent transactions"
+      >
+        {pendingCount > 0 ? (
+          <Loader2 className="h-5 w-5 animate-spin text-yellow-300" />
+        ) : (
+          <Receipt className="h-5 w-5" />
+        )}
+        {pendingCount > 0 && (
+          <span className="text-xs bg-yellow-500/30 text-yellow-200 px-1.5 rounded">{pendingCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-gray-800/95 backdrop-blur-md rounded-lg shadow-lg border border-gray-600 z-10">
+          <div className="flex items-center justify-between p-3 border-b border-gray-600">
+            <span className="text-sm font-medium text-white">Recent Transactions</span>
+            <button onClick={clearSettled} className="text-xs text-gray-400 hover:text-white">
+              Clear finished
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-700">
+            {mine.map((record) => {
+              const network = getNetworkConfig(record.chainId)
+              const txLink = network ? getExplorerLink(record.replacedBy ?? record.hash, 'tx', network) : null
+              return (
+                <li key={record.hash} className="p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    {record.proposalId !== null ? (
+                      <Link
+                        to={`/proposals/${record.proposalId}`}
+                        onClick={() => setIsOpen(false)}
+                        className="text-gray-200 truncate hover:text-blue-300"
+                      >
+                        {record.description}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-200 truncate">{record.description}</span>
+                    )}
+                    <span className={`px-2 py-0.5 rounded text-xs flex-shrink-0 ${STATUS_STYLES[record.status]}`}>
+                      {STATUS_LABELS[record.status]}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-400 mt-1">
+                    <span>
+                      {new Date(record.submittedAt).toLocaleString()}
+                      {network && ` · ${network.name}`}
+                    </span>
+                    {txLink && (
+                      <a href={txLink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                  {record.error && <div className="text-xs text-red-300 mt-1">{record.error}</div>}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TransactionTray
\ No newline at end of file
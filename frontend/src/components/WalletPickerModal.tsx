@@ -0,0 +1,72 @@
+import React from 'react'
+import { createPortal } from 'react-dom'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { STORAGE_KEYS } from '@/utils/constants'
+import { Wallet, XCircle, ExternalLink } from 'lucide-react'
+
+const WalletPickerModal: React.FC = () => {
+  const { wallets, wallet, isWalletPickerOpen, closeWalletPicker, connectWallet } = useWeb3()
+
+  if (!isWalletPickerOpen) return null
+
+  const lastWalletRdns = localStorage.getItem(STORAGE_KEYS.LAST_WALLET_RDNS)
+
+  // Rendered into body so the header's backdrop blur does not clip the overlay
+  return createPortal(
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="glass-card max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-white">Connect a Wallet</h2>
+          <button
+            onClick={closeWalletPicker}
+            className="text-gray-400 hover:text-white"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {wallets.length > 0 ? (
+          <div className="space-y-3">
+            {wallets.map(({ info }) => (
+              <button
+                key={info.uuid}
+                onClick={() => connectWallet(info.rdns)}
+                disabled={wallet.isConnecting}
+                className="w-full flex items-center justify-between bg-white/5 border border-white/10 rounded-lg p-4 hover:bg-white/10 transition-all disabled:opacity-50"
+              >
+                <div className="flex items-center space-x-3">
+                  {info.icon ? (
+                    <img src={info.icon} alt="" className="h-8 w-8 rounded" />
+                  ) : (
+                    <Wallet className="h-8 w-8 text-blue-400" />
+                  )}
+                  <span className="text-white font-medium">{info.name}</span>
+                </div>
+                {info.rdns === lastWalletRdns && (
+                  <span className="text-xs bg-blue-500/20 text-blue-300 px-2 py-1 rounded">Last used</span>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center">
+            <Wallet className="h-12 w-12 text-blue-400 mx-auto mb-4 opacity-50" />
+            <p className="text-gray-300 mb-4">No browser wallet was detected.</p>
+            <a
+              href="https://ethereum.org/en/wallets/find-wallet/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn-primary inline-flex items-center space-x-2"
+            >
+              <span>Find a Wallet</span>
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+export default WalletPickerModal
\ No newline at end of file
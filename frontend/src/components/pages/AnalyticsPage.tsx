@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { LineChart, Vote, CheckCircle, Timer, Users, Calendar } from 'lucide-react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { useGovernanceAnalytics } from '@/hooks/useGovernanceAnalytics'
+import { ProposalTypeLabels as PROPOSAL_TYPE_LABELS } from '@/types/web3'
+import { ALL_TIME, DateRange, ShareholderEngagement, formatDuration } from '@/utils/governanceAnalytics'
+import { formatAddress, getChainTime } from '@/utils/web3'
+import { ANALYTICS_CONFIG } from '@/utils/constants'
+
+const RANGE_PRESETS = [
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: '1y', label: '1 year', days: 365 },
+  { id: 'all', label: 'All time', days: null },
+] as const
+
+type RangePreset = typeof RANGE_PRESETS[number]['id'] | 'custom'
+
+// <input type="date"> value as unix seconds at local midnight
+const parseDateInput = (value: string): number | null =>
+  value ? Math.floor(new Date(`${value}T00:00:00`).getTime() / 1000) : null
+
+const EngagementList: React.FC<{ title: string; entries: ShareholderEngagement[] }> = ({ title, entries }) => (
+  <div>
+    <h3 className="text-sm font-semibold text-gray-300 mb-3">{title}</h3>
+    {entries.length === 0 ? (
+      <p className="text-gray-400 text-sm">No shareholders indexed yet.</p>
+    ) : (
+      <ul className="space-y-3">
+        {entries.map((entry) => (
+          <li key={entry.shareholder}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-gray-200 truncate">{entry.name || formatAddress(entry.shareholder)}</span>
+              <span className="text-gray-400 flex-shrink-0 ml-2">
+                {entry.votes} / {entry.eligible} · {entry.participationPercent.toFixed(0)}%
+              </span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-2">
+              <div className="h-2 rounded-full bg-blue-500" style={{ width: `${entry.participationPercent}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+)
+
+const AnalyticsPage: React.FC = () => {
+  const { contract, wallet } = useWeb3()
+  const [preset, setPreset] = useState<RangePreset>('all')
+  const [customFrom, setCustomFrom] = useState('')
+  const [customTo, setCustomTo] = useState('')
+
+  const range = useMemo<DateRange>(() => {
+    if (preset === 'custom') {
+      const to = parseDateInput(customTo)
+      // Include the whole end day
+      return { from: parseDateInput(customFrom), to: to === null ? null : to + 86399 }
+    }
+    const days = RANGE_PRESETS.find((p) => p.id === preset)?.days ?? null
+    return days === null ? ALL_TIME : { from: getChainTime() - days * 86400, to: null }
+  }, [preset, customFrom, customTo])
+
+  const {
+    proposals,
+    turnout,
+    averageTurnout,
+    passRates,
+    decided,
+    passRate,
+    timeToQuorum,
+    engagement,
+    registeredWeight,
+    isLoading,
+    indexStatus,
+  } = useGovernanceAnalytics(range)
+
+  if (contract.isLoading || wallet.isRestoring || isLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Loading governance data..." />
+      </div>
+    )
+  }
+
+  const listSize = ANALYTICS_CONFIG.ENGAGEMENT_LIST_SIZE
+  const mostEngaged = engagement.slice(0, listSize)
+  // Least engaged first, without repeating anyone from the top list
+  const leastEngaged = engagement.slice(Math.max(listSize, engagement.length - listSize)).reverse()
+
+  const headline = [
+    { label: 'Proposals', value: proposals.length.toString(), icon: Vote },
+    { label: 'Average Turnout', value: `${averageTurnout.toFixed(1)}%`, icon: Users },
+    { label: 'Pass Rate', value: decided > 0 ? `${passRate.toFixed(0)}%` : '—', icon: CheckCircle },
+    {
+      label: `Avg. Time to ${ANALYTICS_CONFIG.QUORUM_PERCENT}% Quorum`,
+      value: timeToQuorum.averageSeconds !== null ? formatDuration(timeToQuorum.averageSeconds) : '—',
+      icon: Timer,
+    },
+  ]
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <LineChart className="h-8 w-8 text-blue-400" />
+          <div>
+            <h1 className="text-3xl font-bold text-white">Governance Analytics</h1>
+            <p className="text-gray-300">Turnout, outcomes and engagement across the company</p>
+          </div>
+        </div>
+
+        {/* Date Range */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Calendar className="h-4 w-4 text-gray-400" />
+          {RANGE_PRESETS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => setPreset(p.id)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                preset === p.id ? 'bg-blue-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={customFrom}
+            onChange={(e) => {
+              setCustomFrom(e.target.value)
+              setPreset('custom')
+            }}
+            className="px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="date"
+            value={customTo}
+            onChange={(e) => {
+              setCustomTo(e.target.value)
+              setPreset('custom')
+            }}
+            className="px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          />
+        </div>
+      </div>
+
+      {indexStatus === 'syncing' && (
+        <p className="text-sm text-blue-200">Reading past votes from the chain; figures will update as they arrive.</p>
+      )}
+
+      {/* Headline Numbers */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        {headline.map((stat) => {
+          const Icon = stat.icon
+          return (
+            <div key={stat.label} className="glass-card p-6 text-center">
+              <Icon className="h-8 w-8 text-blue-400 mx-auto mb-3" />
+              <div className="text-3xl font-bold text-white mb-2">{stat.value}</div>
+              <div className="text-gray-300 text-sm">{stat.label}</div>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Turnout by Proposal */}
+      <div className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-1">Turnout by Proposal</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Share weight that voted, out of {registeredWeight.toLocaleString()} registered shares
+        </p>
+        {turnout.length === 0 ? (
+          <p className="text-gray-400 text-sm">No proposals opened in this period.</p>
+        ) : (
+          <ul className="space-y-3">
+            {turnout.map((t) => (
+              <li key={t.proposalId}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <Link to={`/proposals/${t.proposalId}`} className="text-gray-200 truncate hover:text-blue-300">
+                    #{t.proposalId} {t.title}
+                  </Link>
+                  <span className="text-gray-400 flex-shrink-0 ml-2">
+                    {t.turnoutPercent.toFixed(1)}% · {t.voters} {t.voters === 1 ? 'voter' : 'voters'}
+                  </span>
+                </div>
+                <div className="relative w-full bg-gray-700 rounded-full h-3">
+                  <div className="h-3 rounded-full bg-green-500 transition-all duration-300" style={{ width: `${t.turnoutPercent}%` }} />
+                  <div
+                    className="absolute top-0 h-3 border-l border-yellow-400"
+                    style={{ left: `${ANALYTICS_CONFIG.QUORUM_PERCENT}%` }}
+                    title="Quorum"
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Pass Rate by Type */}
+      <div className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-1">Pass Rate by Proposal Type</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Closed proposals with a known result; confidential tallies count once their results are recorded
+        </p>
+        <ul className="space-y-3">
+          {passRates.map((rate) => (
+            <li key={rate.proposalType}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-gray-200">{PROPOSAL_TYPE_LABELS[rate.proposalType]}</span>
+                <span className="text-gray-400">
+                  {rate.decided > 0 ? `${rate.passed} of ${rate.decided} passed` : 'No results'}
+                </span>
+              </div>
+              <div className="relative w-full bg-gray-700 rounded-full h-3 overflow-hidden">
+                {rate.decided > 0 && (
+                  <>
+                    <div className="absolute left-0 top-0 h-full bg-green-500" style={{ width: `${rate.passRate}%` }} />
+                    <div
+                      className="absolute top-0 h-full bg-red-500"
+                      style={{ left: `${rate.passRate}%`, width: `${100 - rate.passRate}%` }}
+                    />
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Shareholder Engagement */}
+      <div className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-1">Shareholder Engagement</h2>
+        <p className="text-gray-400 text-sm mb-4">Proposals voted on out of those open since each shareholder registered</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <EngagementList title="Most Engaged" entries={mostEngaged} />
+          <EngagementList title="Least Engaged" entries={leastEngaged} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default AnalyticsPage
\ No newline at end of file
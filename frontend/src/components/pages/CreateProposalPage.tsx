@@ -0,0 +1,156 @@
+import React, { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { ArrowLeft, FilePlus, Hash } from 'lucide-react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import ReadOnlyBanner from '@/components/ReadOnlyBanner'
+import { useContract } from '@/hooks/useContract'
+import { ProposalType, ProposalTypeLabels as PROPOSAL_TYPE_LABELS } from '@/types/web3'
+import { hashDescription } from '@/utils/descriptionStore'
+import { PROPOSAL_LIMITS } from '@/utils/constants'
+
+const CreateProposalPage: React.FC = () => {
+  const { wallet, contract } = useWeb3()
+  const { createProposal } = useContract()
+  const navigate = useNavigate()
+  const [proposalType, setProposalType] = useState<ProposalType>(ProposalType.STRATEGIC)
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [durationDays, setDurationDays] = useState(PROPOSAL_LIMITS.DEFAULT_DURATION_DAYS)
+  const [submitting, setSubmitting] = useState(false)
+
+  const storesOnChain = contract.contract?.capabilities.onChainDescriptions ?? false
+  const titleError = title.length > PROPOSAL_LIMITS.MAX_TITLE_LENGTH
+    ? `Title cannot exceed ${PROPOSAL_LIMITS.MAX_TITLE_LENGTH} characters`
+    : null
+  const canSubmit = title.trim().length > 0 && !titleError && !submitting
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    setSubmitting(true)
+    try {
+      const proposalId = await createProposal(proposalType, title.trim(), durationDays, description.trim())
+      if (proposalId !== null) {
+        navigate(`/proposals/${proposalId}`)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (contract.isLoading || wallet.isRestoring) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Loading contract data..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <Link to="/proposals" className="inline-flex items-center space-x-2 text-gray-300 hover:text-white">
+        <ArrowLeft className="h-4 w-4" />
+        <span>All Proposals</span>
+      </Link>
+
+      <div className="flex items-center space-x-3">
+        <FilePlus className="h-8 w-8 text-blue-400" />
+        <div>
+          <h1 className="text-3xl font-bold text-white">Create Proposal</h1>
+          <p className="text-gray-300">Put a new resolution to the shareholders</p>
+        </div>
+      </div>
+
+      <ReadOnlyBanner action="create proposals" />
+
+      <form onSubmit={handleSubmit} className="glass-card p-6 space-y-6">
+        {/* Type */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Proposal Type</label>
+          <select
+            value={proposalType}
+            onChange={(e) => setProposalType(Number(e.target.value) as ProposalType)}
+            className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:border-blue-400"
+          >
+            {Object.entries(PROPOSAL_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value} className="bg-gray-800">
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Title */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Approve FY2026 operating budget"
+            className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400"
+          />
+          <div className="flex justify-between text-xs mt-1">
+            <span className="text-red-300">{titleError}</span>
+            <span className="text-gray-400">{title.length}/{PROPOSAL_LIMITS.MAX_TITLE_LENGTH}</span>
+          </div>
+        </div>
+
+        {/* Description */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={10}
+            placeholder="Background, the resolution being voted on, and any supporting figures. Line breaks are preserved."
+            className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400 resize-y"
+          />
+          <div className="flex items-start space-x-2 text-xs text-gray-400 mt-1">
+            <Hash className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            <span className="break-all">
+              {description.trim()
+                ? `Content hash ${hashDescription(description.trim())}`
+                : 'The description is saved in this browser and linked to the proposal by its content hash.'}
+              {!storesOnChain && description.trim() && ' This contract does not store descriptions, so only this browser can show the text.'}
+            </span>
+          </div>
+        </div>
+
+        {/* Duration */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Voting Period</label>
+          <div className="flex flex-wrap gap-2">
+            {PROPOSAL_LIMITS.DURATION_OPTIONS.map((days) => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => setDurationDays(days)}
+                className={`px-4 py-2 rounded-lg text-sm border transition-all ${
+                  durationDays === days
+                    ? 'bg-blue-500/30 border-blue-400 text-white'
+                    : 'bg-white/5 border-white/20 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {days} {days === 1 ? 'day' : 'days'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          {submitting ? <LoadingSpinner size="small" /> : <FilePlus className="h-4 w-4" />}
+          <span>{submitting ? 'Creating Proposal...' : 'Create Proposal'}</span>
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default CreateProposalPage
\ No newline at end of file
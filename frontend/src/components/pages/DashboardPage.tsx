@@ -1,96 +1,181 @@
-import React from 'react'
-import { useWeb3 } from '@/providers/Web3Provider'
-import { BarChart3, Users, Vote, TrendingUp, Wallet } from 'lucide-react'
-import LoadingSpinner from '@/components/LoadingSpinner'
-
-const DashboardPage: React.FC = () => {
-  const { wallet, contract } = useWeb3()
-
-  // If wallet is not connected
-  if (!wallet.isConnected) {
-    return (
-      <div className="min-h-[60vh] flex items-center justify-center">
-        <div className="glass-card p-8 text-center max-w-md mx-auto">
-          <Wallet className="h-16 w-16 text-blue-400 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-white mb-4">Connect Wallet</h2>
-          <p className="text-gray-300 mb-6">
-            Please connect your MetaMask wallet to access the dashboard
-          </p>
-        </div>
-      </div>
-    )
-  }
-
-  // If contract is loading
-  if (contract.isLoading) {
-    return (
-      <div className="min-h-[60vh] flex items-center justify-center">
-        <LoadingSpinner size="large" text="Loading dashboard data..." />
-      </div>
-    )
-  }
-
-  const mockStats = [
-    { label: 'My Votes', value: '12', icon: Vote, color: 'text-blue-400' },
-    { label: 'Participated Proposals', value: '8', icon: BarChart3, color: 'text-green-400' },
-    { label: 'Shareholding Ratio', value: '2.5%', icon: TrendingUp, color: 'text-purple-400' },
-    { label: 'Voting Power', value: '125', icon: Users, color: 'text-orange-400' }
-  ]
-
-  return (
-    <div className="space-y-8">
-      {/* Header */}
-      <div>
-        <h1 className="text-4xl font-bold text-white mb-2 flex items-center space-x-3">
-          <BarChart3 className="h-8 w-8 text-blue-400" />
-          <span>Dashboard</span>
-        </h1>
-        <p className="text-gray-400">
-          View your voting records and participation statistics
-        </p>
-      </div>
-
-      {/* Stats Grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-        {mockStats.map((stat, index) => {
-          const Icon = stat.icon
-          return (
-            <div key={index} className="glass-card p-6 text-center">
-              <Icon className={`h-8 w-8 mx-auto mb-3 ${stat.color}`} />
-              <div className="text-3xl font-bold text-white mb-2">{stat.value}</div>
-              <div className="text-gray-300 text-sm">{stat.label}</div>
-            </div>
-          )
-        })}
-      </div>
-
-      {/* Recent Activity */}
-      <div className="glass-card p-6">
-        <h2 className="text-xl font-bold text-white mb-4">Recent Activity</h2>
-        <div className="space-y-4">
-          {[1, 2, 3].map((i) => (
-            <div key={i} className="bg-white/5 rounded-lg p-4 animate-pulse">
-              <div className="flex items-center justify-between mb-2">
-                <div className="h-4 bg-white/10 rounded w-1/3"></div>
-                <div className="h-3 bg-white/10 rounded w-20"></div>
-              </div>
-              <div className="h-3 bg-white/10 rounded w-2/3 mb-2"></div>
-              <div className="h-3 bg-white/10 rounded w-1/2"></div>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      {/* Coming Soon */}
-      <div className="glass-card p-8 text-center">
-        <BarChart3 className="h-16 w-16 text-blue-400 mx-auto mb-4 opacity-50" />
-        <h2 className="text-2xl font-bold text-white mb-4">Full Dashboard Coming Soon</h2>
-        <p className="text-gray-400 max-w-md mx-auto">
-          Detailed voting statistics, historical records, and personal analytics features are in development
-        </p>
-      </div>
-    </div>
-  )
-}
-
+import React, { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { BarChart3, Vote, TrendingUp, PieChart, Clock, ExternalLink, History, ChevronRight } from 'lucide-react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import ReadOnlyBanner from '@/components/ReadOnlyBanner'
+import { useCompanyInfo, useProposals, useShareholder } from '@/hooks/useGovernanceQueries'
+import { useGovernanceIndex } from '@/hooks/useGovernanceIndex'
+import { VoteChoiceLabels } from '@/types/web3'
+import { formatTimestamp, getChainTime, getExplorerLink, getRemainingTime } from '@/utils/web3'
+
+const DashboardPage: React.FC = () => {
+  const { wallet, contract, network } = useWeb3()
+  const { data: company } = useCompanyInfo()
+  const { proposals, isLoading: proposalsLoading } = useProposals()
+  const { data: shareholder, isLoading: shareholderLoading } = useShareholder(wallet.account)
+  const { shareholders, getVoterHistory, status: indexStatus, error: indexError } = useGovernanceIndex()
+
+  const now = getChainTime()
+  const account = wallet.account?.toLowerCase() ?? null
+
+  // Proposals still open when the account was (last) registered; ones it voted on always count
+  const registeredAt = shareholders.find((s) => s.shareholder.toLowerCase() === account)?.timestamp ?? 0
+  const eligible = useMemo(
+    () => shareholder?.active
+      ? proposals.filter((p) => p.hasVoted || p.deadline >= registeredAt)
+      : proposals.filter((p) => p.hasVoted),
+    [proposals, shareholder?.active, registeredAt]
+  )
+  const votedCount = proposals.filter((p) => p.hasVoted).length
+  const participation = eligible.length > 0 ? (votedCount / eligible.length) * 100 : 0
+
+  const shares = shareholder?.active ? shareholder.shares : 0
+  const ownership = company && company.totalShares > 0 ? (shares / company.totalShares) * 100 : 0
+
+  // Soonest deadline first
+  const awaitingVote = shareholder?.active
+    ? proposals
+        .filter((p) => p.active && p.deadline > now && !p.hasVoted)
+        .sort((a, b) => a.deadline - b.deadline)
+    : []
+
+  const history = account ? getVoterHistory(account) : []
+  const titles = new Map(proposals.map((p) => [p.id, p.title]))
+
+  // If contract is loading or the previous session is being restored
+  if (contract.isLoading || wallet.isRestoring || (wallet.isConnected && (proposalsLoading || shareholderLoading))) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Loading dashboard data..." />
+      </div>
+    )
+  }
+
+  const stats = [
+    { label: 'Shares Held', value: shares.toLocaleString(), icon: PieChart, color: 'text-blue-400' },
+    { label: 'Ownership', value: `${ownership.toFixed(2)}%`, icon: TrendingUp, color: 'text-purple-400' },
+    { label: 'Proposals Voted', value: `${votedCount} / ${eligible.length}`, icon: Vote, color: 'text-green-400' },
+    { label: 'Participation Rate', value: `${participation.toFixed(0)}%`, icon: BarChart3, color: 'text-orange-400' }
+  ]
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-4xl font-bold text-white mb-2 flex items-center space-x-3">
+          <BarChart3 className="h-8 w-8 text-blue-400" />
+          <span>Dashboard</span>
+        </h1>
+        <p className="text-gray-400">
+          View your voting records and participation statistics
+        </p>
+      </div>
+
+      <ReadOnlyBanner action="see your voting records" />
+
+      {wallet.isConnected && (
+        <>
+          {!shareholder?.active && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 text-sm text-yellow-200">
+              This account is not a registered shareholder of {company?.companyName ?? 'the company'}.
+              Ask a board member to register it to vote.
+            </div>
+          )}
+
+          {/* Stats Grid */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {stats.map((stat) => {
+              const Icon = stat.icon
+              return (
+                <div key={stat.label} className="glass-card p-6 text-center">
+                  <Icon className={`h-8 w-8 mx-auto mb-3 ${stat.color}`} />
+                  <div className="text-3xl font-bold text-white mb-2">{stat.value}</div>
+                  <div className="text-gray-300 text-sm">{stat.label}</div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Awaiting Your Vote */}
+          <div className="glass-card p-6">
+            <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+              <Clock className="h-5 w-5" />
+              <span>Awaiting Your Vote ({awaitingVote.length})</span>
+            </h2>
+            {awaitingVote.length === 0 ? (
+              <p className="text-gray-400 text-sm">
+                {shareholder?.active ? 'You have voted on every open proposal.' : 'Only registered shareholders can vote.'}
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {awaitingVote.map((proposal) => (
+                  <li key={proposal.id} className="bg-white/5 rounded-lg p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <Link to={`/proposals/${proposal.id}`} className="text-white font-medium truncate hover:text-blue-300 block">
+                        #{proposal.id} {proposal.title}
+                      </Link>
+                      <div className="text-xs text-gray-400 mt-1">
+                        Closes {formatTimestamp(proposal.deadline)} · {getRemainingTime(proposal.deadline)} left
+                      </div>
+                    </div>
+                    <Link to={`/vote/${proposal.id}`} className="btn-primary text-sm flex items-center space-x-1 flex-shrink-0">
+                      <span>Vote</span>
+                      <ChevronRight className="h-4 w-4" />
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Voting History */}
+          <div className="glass-card p-6">
+            <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Voting History</span>
+            </h2>
+            {history.length === 0 ? (
+              <p className="text-gray-400 text-sm">
+                {indexStatus === 'syncing'
+                  ? 'Reading past votes from the chain...'
+                  : indexStatus === 'error'
+                    ? `Past votes are unavailable: ${indexError}`
+                    : 'No votes cast from this account yet.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-white/10">
+                {history.map((vote) => {
+                  const txLink = getExplorerLink(vote.transactionHash, 'tx', network)
+                  return (
+                    <li key={`${vote.transactionHash}:${vote.logIndex}`} className="py-3 flex items-center justify-between gap-4 text-sm">
+                      <div className="min-w-0">
+                        <Link to={`/proposals/${vote.proposalId}`} className="text-gray-200 truncate hover:text-blue-300 block">
+                          #{vote.proposalId} {titles.get(vote.proposalId) ?? ''}
+                        </Link>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {vote.choice !== null ? VoteChoiceLabels[vote.choice] : 'Confidential ballot'}
+                          {vote.weight > 0 && ` · ${vote.weight.toLocaleString()} shares`}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 text-xs text-gray-400 flex-shrink-0">
+                        <span>{formatTimestamp(vote.timestamp)}</span>
+                        {txLink && (
+                          <a href={txLink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
 export default DashboardPage
\ No newline at end of file
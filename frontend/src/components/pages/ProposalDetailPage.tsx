@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { ArrowLeft, Clock, User, Target, Vote, CheckCircle, XCircle, Users, ExternalLink, Lock, Flag, AlertCircle } from 'lucide-react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import ReadOnlyBanner from '@/components/ReadOnlyBanner'
+import ActivityFeed from '@/components/ActivityFeed'
+import { useContract } from '@/hooks/useContract'
+import { useProposal } from '@/hooks/useGovernanceQueries'
+import { useGovernanceIndex } from '@/hooks/useGovernanceIndex'
+import { useProposalResults } from '@/hooks/useProposalResults'
+import { ProposalTypeLabels as PROPOSAL_TYPE_LABELS, VoteChoiceLabels } from '@/types/web3'
+import { formatAddress, formatTimestamp, getChainTime, getExplorerLink } from '@/utils/web3'
+import { evaluateOutcome, resolveThreshold } from '@/utils/governanceRules'
+
+const formatCountdown = (seconds: number) => {
+  if (seconds <= 0) return 'Voting closed'
+
+  const days = Math.floor(seconds / (24 * 60 * 60))
+  const hours = Math.floor((seconds % (24 * 60 * 60)) / (60 * 60))
+  const minutes = Math.floor((seconds % (60 * 60)) / 60)
+  const secs = seconds % 60
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`
+  return `${hours}h ${minutes}m ${secs}s`
+}
+
+const ProposalDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const proposalId = Number(id)
+  const { wallet, contract, network, roles } = useWeb3()
+  const { finalizeProposal } = useContract()
+  const { proposal, isLoading } = useProposal(proposalId)
+  const { getProposalVotes, shareholders, status: indexStatus, error: indexError } = useGovernanceIndex()
+  const { getRecord, fetchResults } = useProposalResults()
+  const [isFinalizing, setIsFinalizing] = useState(false)
+  const [now, setNow] = useState(getChainTime)
+
+  // Results are only readable once finalized, and only by the board on some variants
+  useEffect(() => {
+    if (proposal && !proposal.active) fetchResults(proposal)
+  }, [proposal, fetchResults])
+
+  // Tick the countdown while voting is open
+  useEffect(() => {
+    if (!proposal?.active) return
+    const timer = setInterval(() => setNow(getChainTime()), 1000)
+    return () => clearInterval(timer)
+  }, [proposal?.active])
+
+  const handleFinalize = async () => {
+    setIsFinalizing(true)
+    try {
+      await finalizeProposal(proposalId)
+    } finally {
+      setIsFinalizing(false)
+    }
+  }
+
+  if (contract.isLoading || wallet.isRestoring || isLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Loading proposal..." />
+      </div>
+    )
+  }
+
+  if (!proposal) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="glass-card p-8 text-center max-w-md mx-auto">
+          <AlertCircle className="h-16 w-16 text-red-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-4">Proposal Not Found</h2>
+          <p className="text-gray-300 mb-6">Proposal #{id} does not exist on {network.name}.</p>
+          <Link to="/proposals" className="btn-primary">
+            Back to Proposals
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const votes = getProposalVotes(proposal.id)
+  const remaining = proposal.deadline - now
+  const votingOpen = proposal.active && remaining > 0
+  const canFinalize = proposal.active && remaining <= 0
+
+  // Finalized results (read now or recorded earlier) take precedence over the live tally
+  const results = proposal.active ? null : getRecord(proposal.id)
+  const tally = results ?? (contract.contract?.capabilities.liveTallies
+    ? { forVotes: proposal.forVotes, againstVotes: proposal.againstVotes }
+    : null)
+  const totalVotes = tally ? tally.forVotes + tally.againstVotes : 0
+  const forPercent = tally && totalVotes > 0 ? (tally.forVotes / totalVotes) * 100 : 0
+  const againstPercent = tally && totalVotes > 0 ? (tally.againstVotes / totalVotes) * 100 : 0
+
+  // Share weight that has not voted yet decides whether the outcome can still change. It is
+  // only known once the index has caught up; a partial register would understate it.
+  const threshold = resolveThreshold(proposal, contract.contract?.variant)
+  const registeredWeight = shareholders.reduce((total, s) => total + s.shares, 0)
+  const votedWeight = votes.reduce((total, vote) => total + vote.weight, 0)
+  const remainingWeight = !votingOpen ? 0 : indexStatus === 'live' ? registeredWeight - votedWeight : undefined
+  const outcome = tally ? evaluateOutcome(tally, threshold, remainingWeight) : null
+
+  const proposerLink = getExplorerLink(proposal.proposer, 'address', network)
+  const contractLink = contract.contract ? getExplorerLink(contract.contract.address, 'address', network) : null
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <Link to="/proposals" className="inline-flex items-center space-x-2 text-gray-300 hover:text-white">
+        <ArrowLeft className="h-4 w-4" />
+        <span>All Proposals</span>
+      </Link>
+
+      {/* Header */}
+      <div className="glass-card p-6">
+        <div className="flex items-center flex-wrap gap-3 mb-3">
+          <span className="px-3 py-1 bg-blue-500/20 text-blue-300 rounded-full text-sm font-medium">
+            {PROPOSAL_TYPE_LABELS[proposal.proposalType as keyof typeof PROPOSAL_TYPE_LABELS]}
+          </span>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+            votingOpen
+              ? 'bg-green-500/20 text-green-300'
+              : proposal.active
+                ? 'bg-yellow-500/20 text-yellow-300'
+                : 'bg-gray-500/20 text-gray-300'
+          }`}>
+            {votingOpen ? 'Voting Open' : proposal.active ? 'Awaiting Finalization' : 'Finalized'}
+          </span>
+          <span className="text-gray-400 text-sm">ID #{proposal.id}</span>
+        </div>
+        <h1 className="text-3xl font-bold text-white mb-3">{proposal.title}</h1>
+        {proposal.description ? (
+          <p className="text-gray-300 whitespace-pre-line">{proposal.description}</p>
+        ) : (
+          <p className="text-gray-500 italic">No description was stored for this proposal in this browser.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 text-sm">
+          <div className="flex items-center space-x-2 text-gray-300">
+            <User className="h-4 w-4 text-gray-400" />
+            <span>Proposer:</span>
+            {proposerLink ? (
+              <a href={proposerLink} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-300 hover:text-blue-200">
+                {formatAddress(proposal.proposer)}
+              </a>
+            ) : (
+              <span className="font-mono">{formatAddress(proposal.proposer)}</span>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 text-gray-300" title={formatTimestamp(proposal.deadline)}>
+            <Clock className="h-4 w-4 text-gray-400" />
+            <span>{votingOpen ? `${formatCountdown(remaining)} remaining` : `Closed ${formatTimestamp(proposal.deadline)}`}</span>
+          </div>
+          <div className="flex items-center space-x-2 text-gray-300">
+            <Target className="h-4 w-4 text-gray-400" />
+            <span>Passes with more than {threshold}% in favour</span>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap gap-3 mt-6">
+          {votingOpen && proposal.hasVoted && (
+            <span className="btn-secondary flex items-center space-x-2 opacity-60 cursor-default">
+              <CheckCircle className="h-4 w-4" />
+              <span>You Voted</span>
+            </span>
+          )}
+          {votingOpen && !proposal.hasVoted && (
+            <Link to={`/vote/${proposal.id}`} className="btn-primary flex items-center space-x-2">
+              <Vote className="h-4 w-4" />
+              <span>Vote on This Proposal</span>
+            </Link>
+          )}
+          {canFinalize && roles.isBoardMember && (
+            <button
+              onClick={handleFinalize}
+              disabled={isFinalizing}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+            >
+              {isFinalizing ? <LoadingSpinner size="small" /> : <Flag className="h-4 w-4" />}
+              <span>Finalize Proposal</span>
+            </button>
+          )}
+          {contractLink && (
+            <a
+              href={contractLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <span>View Contract</span>
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          )}
+        </div>
+      </div>
+
+      <ReadOnlyBanner action="vote on this proposal" />
+
+      {/* Tally */}
+      <div className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-4">{results ? 'Final Results' : 'Current Tally'}</h2>
+        {tally ? (
+          <>
+            <div className="w-full bg-gray-700 rounded-full h-3 mb-4">
+              <div className="relative h-full rounded-full overflow-hidden">
+                <div
+                  className="absolute left-0 top-0 h-full bg-green-500"
+                  style={{ width: `${forPercent}%` }}
+                />
+                <div
+                  className="absolute top-0 h-full bg-red-500"
+                  style={{ left: `${forPercent}%`, width: `${againstPercent}%` }}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div className="flex items-center space-x-1 text-gray-300">
+                <CheckCircle className="h-4 w-4 text-green-400" />
+                <span>For: {tally.forVotes.toLocaleString()} ({forPercent.toFixed(1)}%)</span>
+              </div>
+              <div className="flex items-center space-x-1 text-gray-300">
+                <XCircle className="h-4 w-4 text-red-400" />
+                <span>Against: {tally.againstVotes.toLocaleString()} ({againstPercent.toFixed(1)}%)</span>
+              </div>
+              {results && (
+                <span className={`font-semibold ${results.passed ? 'text-green-400' : 'text-red-400'}`}>
+                  {results.passed ? 'Passed' : 'Rejected'}
+                </span>
+              )}
+            </div>
+            {outcome && !results && (
+              <div className="mt-4 text-sm text-gray-300 space-y-1">
+                <div>
+                  Projected outcome:{' '}
+                  <span className={`font-semibold ${outcome.passing ? 'text-green-400' : 'text-red-400'}`}>
+                    {outcome.passing ? 'Passing' : 'Failing'}
+                  </span>{' '}
+                  ({outcome.approvalPercent}% counted in favour, more than {outcome.threshold}% required)
+                </div>
+                <div className="text-gray-400">
+                  {outcome.passing
+                    ? `${outcome.marginToFail.toLocaleString()} more shares voting against would defeat it`
+                    : Number.isFinite(outcome.votesToPass)
+                      ? `Needs ${outcome.votesToPass.toLocaleString()} more shares voting for to pass`
+                      : 'Cannot pass under this threshold'}
+                </div>
+                {outcome.decided && (
+                  <div className="font-semibold text-white">
+                    Mathematically decided: the remaining shares cannot change the result
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex items-center space-x-2 text-gray-400 text-sm">
+            <Lock className="h-4 w-4" />
+            <span>
+              {proposal.active
+                ? 'Votes stay confidential until the proposal is finalized.'
+                : 'Final results are only readable by board members.'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {votingOpen && <ActivityFeed proposalId={proposal.id} />}
+
+      {/* Voters */}
+      <div className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Voters ({votes.length})</span>
+        </h2>
+        {indexStatus === 'syncing' && votes.length === 0 ? (
+          <LoadingSpinner text="Reading VoteAdd events..." />
+        ) : indexStatus === 'error' && votes.length === 0 ? (
+          <p className="text-gray-400 text-sm">Votes are unavailable: {indexError}</p>
+        ) : votes.length === 0 ? (
+          <p className="text-gray-400 text-sm">No votes have been cast yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {votes.map((vote) => {
+              const txLink = getExplorerLink(vote.transactionHash, 'tx', network)
+              return (
+                <div
+                  key={`${vote.voter}-${vote.transactionHash}`}
+                  className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-sm"
+                >
+                  <span className="font-mono text-white" title={vote.voter}>{formatAddress(vote.voter)}</span>
+                  <div className="flex items-center space-x-4 text-gray-400">
+                    {vote.choice !== null && <span>{VoteChoiceLabels[vote.choice]}</span>}
+                    {vote.weight > 0 && <span>{vote.weight.toLocaleString()} shares</span>}
+                    <span>{formatTimestamp(vote.timestamp)}</span>
+                    {txLink && (
+                      <a href={txLink} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProposalDetailPage
\ No newline at end of file
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { Users, UserPlus, Edit3, Search, ExternalLink, PieChart } from 'lucide-react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import ReadOnlyBanner from '@/components/ReadOnlyBanner'
+import ShareholderImportPanel from '@/components/ShareholderImportPanel'
+import { useContract } from '@/hooks/useContract'
+import { useGovernanceIndex } from '@/hooks/useGovernanceIndex'
+import { formatAddress, formatTimestamp, getExplorerLink } from '@/utils/web3'
+import { validateShareholderEntry } from '@/utils/shareholders'
+
+interface ShareholderForm {
+  address: string
+  shares: string
+  name: string
+}
+
+const EMPTY_FORM: ShareholderForm = { address: '', shares: '', name: '' }
+
+const ShareholdersAdminPage: React.FC = () => {
+  const { wallet, contract, network } = useWeb3()
+  const { contractState, addShareholder } = useContract()
+  const { shareholders, status, refresh } = useGovernanceIndex()
+  const [form, setForm] = useState<ShareholderForm>(EMPTY_FORM)
+  const [editing, setEditing] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+
+  const canUpdate = contract.contract?.capabilities.updatableShareholders ?? false
+  const registeredShares = useMemo(
+    () => shareholders.reduce((total, s) => total + s.shares, 0),
+    [shareholders]
+  )
+  const registeredPercent = contractState.totalShares > 0
+    ? (registeredShares / contractState.totalShares) * 100
+    : 0
+
+  const filteredShareholders = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    if (!term) return shareholders
+    return shareholders.filter(s =>
+      s.name.toLowerCase().includes(term) || s.shareholder.toLowerCase().includes(term)
+    )
+  }, [shareholders, searchTerm])
+
+  const existing = shareholders.find(
+    s => s.shareholder.toLowerCase() === form.address.trim().toLowerCase()
+  )
+
+  const startEdit = (address: string, shares: number, name: string) => {
+    setForm({ address, shares: String(shares), name })
+    setEditing(true)
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditing(false)
+  }
+
+  const formError = (() => {
+    if (!form.address && !form.shares && !form.name) return null
+    const validation = validateShareholderEntry({
+      address: form.address.trim(),
+      shares: Number(form.shares),
+      name: form.name.trim()
+    })
+    if (validation) return validation
+    if (existing && !canUpdate) {
+      return 'This address is already registered and this contract does not support updates'
+    }
+    return null
+  })()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (formError) return
+
+    setSubmitting(true)
+    try {
+      const saved = await addShareholder(form.address.trim(), Number(form.shares), form.name.trim())
+      if (saved) {
+        resetForm()
+        await refresh()
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (contract.isLoading || wallet.isRestoring) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <LoadingSpinner size="large" text="Loading shareholder registry..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center space-x-3">
+        <Users className="h-8 w-8 text-blue-400" />
+        <div>
+          <h1 className="text-3xl font-bold text-white">Shareholder Registry</h1>
+          <p className="text-gray-300">Registered shareholders and their voting shares</p>
+        </div>
+      </div>
+
+      <ReadOnlyBanner action="manage the registry" />
+
+      {/* Share Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="glass-card p-6 text-center">
+          <Users className="h-8 w-8 mx-auto mb-3 text-blue-400" />
+          <div className="text-3xl font-bold text-white mb-2">{shareholders.length}</div>
+          <div className="text-gray-300 text-sm">Registered Shareholders</div>
+        </div>
+        <div className="glass-card p-6 text-center">
+          <PieChart className="h-8 w-8 mx-auto mb-3 text-green-400" />
+          <div className="text-3xl font-bold text-white mb-2">{registeredShares.toLocaleString()}</div>
+          <div className="text-gray-300 text-sm">
+            of {contractState.totalShares.toLocaleString()} total shares
+          </div>
+        </div>
+        <div className="glass-card p-6">
+          <div className="flex justify-between text-sm text-gray-300 mb-2">
+            <span>Registered</span>
+            <span>{registeredPercent.toFixed(1)}%</span>
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-2 mb-3">
+            <div
+              className={`h-full rounded-full ${registeredPercent > 100 ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min(registeredPercent, 100)}%` }}
+            />
+          </div>
+          {registeredPercent > 100 && (
+            <p className="text-red-300 text-xs">Registered shares exceed the company's total shares</p>
+          )}
+        </div>
+      </div>
+
+      {/* Add / Edit Form */}
+      <form onSubmit={handleSubmit} className="glass-card p-6">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center space-x-2">
+          {editing ? <Edit3 className="h-5 w-5" /> : <UserPlus className="h-5 w-5" />}
+          <span>{editing ? 'Edit Shareholder' : 'Add Shareholder'}</span>
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <input
+            type="text"
+            placeholder="0x... wallet address"
+            value={form.address}
+            disabled={editing}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+            className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 font-mono text-sm focus:outline-none focus:border-blue-400 disabled:opacity-60"
+          />
+          <input
+            type="number"
+            min={1}
+            step={1}
+            placeholder="Shares"
+            value={form.shares}
+            onChange={(e) => setForm({ ...form, shares: e.target.value })}
+            className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400"
+          />
+          <input
+            type="text"
+            placeholder="Shareholder name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400"
+          />
+        </div>
+        {formError && <p className="text-red-300 text-sm mb-4">{formError}</p>}
+        {!formError && existing && !editing && (
+          <p className="text-yellow-300 text-sm mb-4">
+            This address is already registered; saving will update its shares and name.
+          </p>
+        )}
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            disabled={submitting || !!formError || !form.address}
+            className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+          >
+            {submitting ? <LoadingSpinner size="small" /> : <UserPlus className="h-4 w-4" />}
+            <span>{editing || existing ? 'Save Changes' : 'Add Shareholder'}</span>
+          </button>
+          {(editing || form.address) && (
+            <button type="button" onClick={resetForm} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Bulk Import */}
+      <ShareholderImportPanel onImported={refresh} />
+
+      {/* Registry */}
+      <div className="glass-card p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <h2 className="text-xl font-bold text-white">Registered Shareholders</h2>
+          <div className="relative md:w-72">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search name or address..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-400"
+            />
+          </div>
+        </div>
+
+        {status === 'syncing' && shareholders.length === 0 ? (
+          <LoadingSpinner text="Reading ShareholderAdd events..." />
+        ) : filteredShareholders.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No shareholders registered yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-3 pr-4">Name</th>
+                  <th className="py-3 pr-4">Address</th>
+                  <th className="py-3 pr-4 text-right">Shares</th>
+                  <th className="py-3 pr-4 text-right">Ownership</th>
+                  <th className="py-3 pr-4">Registered</th>
+                  <th className="py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredShareholders.map((s) => {
+                  const txLink = getExplorerLink(s.transactionHash, 'tx', network)
+                  return (
+                    <tr key={s.shareholder} className="border-b border-white/5 text-gray-200">
+                      <td className="py-3 pr-4 font-medium text-white">{s.name || '—'}</td>
+                      <td className="py-3 pr-4 font-mono" title={s.shareholder}>{formatAddress(s.shareholder)}</td>
+                      <td className="py-3 pr-4 text-right">{s.shares.toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-right">
+                        {contractState.totalShares > 0
+                          ? `${((s.shares / contractState.totalShares) * 100).toFixed(2)}%`
+                          : '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-400">
+                        {txLink ? (
+                          <a
+                            href={txLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center space-x-1 hover:text-blue-300"
+                          >
+                            <span>{formatTimestamp(s.timestamp)}</span>
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          formatTimestamp(s.timestamp)
+                        )}
+                      </td>
+                      <td className="py-3 text-right">
+                        {canUpdate && (
+                          <button
+                            onClick={() => startEdit(s.shareholder, s.shares, s.name)}
+                            className="text-blue-400 hover:text-blue-300 inline-flex items-center space-x-1"
+                          >
+                            <Edit3 className="h-4 w-4" />
+                            <span>Edit</span>
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ShareholdersAdminPage
\ No newline at end of file
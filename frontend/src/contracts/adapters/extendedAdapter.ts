@@ -0,0 +1,173 @@
+import { ethers } from 'ethers'
+import FinalArtifact from '@artifacts/contracts/CorporateGovernanceFinal.sol/CorporateGovernanceFinal.json'
+import SuperArtifact from '@artifacts/contracts/CorporateGovernanceSuper.sol/CorporateGovernanceSuper.json'
+import OptimizedArtifact from '@artifacts/contracts/CorporateGovernanceOptimized.sol/CorporateGovernanceOptimized.json'
+import {
+  decodeGovernanceLog,
+  getGovernanceEventTopics,
+  GovernanceEventNames,
+} from '@/contracts/governanceClient'
+import { GovernanceAdapter, GovernanceVariant } from './types'
+import { batchedRead } from '@/contracts/multicall'
+
+type ExtendedVariant = Exclude<GovernanceVariant, 'ultimate'>
+
+interface Tally {
+  forVotes: number
+  againstVotes: number
+}
+
+interface VariantConfig {
+  abi: ethers.InterfaceAbi
+  onChainDescriptions: boolean
+  // Reads live tallies, or null when the variant keeps them private until finalization
+  readTally: ((contract: ethers.Contract, id: number) => Promise<Tally>) | null
+}
+
+// Event names shared by Final, Super and Optimized
+const EXTENDED_EVENT_NAMES: GovernanceEventNames = {
+  CompanyInit: 'CompanyInitialized',
+  ShareholderAdd: 'ShareholderRegistered',
+  ProposalAdd: 'ProposalCreated',
+  VoteAdd: 'VoteCast',
+}
+
+// getProposalVotes returns (for, against, abstain, threshold) on Super and
+// (for, against, abstain, participation, threshold) on Optimized; the first two slots agree
+const readProposalVotes = async (contract: ethers.Contract, id: number): Promise<Tally> => {
+  const votes = await batchedRead(contract, 'getProposalVotes', [id])
+  return { forVotes: Number(votes[0]), againstVotes: Number(votes[1]) }
+}
+
+export const EXTENDED_VARIANTS: Record<ExtendedVariant, VariantConfig> = {
+  final: {
+    abi: FinalArtifact.abi,
+    onChainDescriptions: true,
+    readTally: null,
+  },
+  super: {
+    abi: SuperArtifact.abi,
+    onChainDescriptions: false,
+    readTally: readProposalVotes,
+  },
+  optimized: {
+    abi: OptimizedArtifact.abi,
+    onChainDescriptions: true,
+    readTally: readProposalVotes,
+  },
+}
+
+// CorporateGovernanceFinal / Super / Optimized:
+// initializeCompany / addBoardMember / registerShareholderPlain / 5-arg createProposal / castVotePlain
+export const createExtendedAdapter = (
+  variant: ExtendedVariant,
+  runner: ethers.ContractRunner,
+  address: string
+): GovernanceAdapter => {
+  const config = EXTENDED_VARIANTS[variant]
+  const contract = new ethers.Contract(address, config.abi, runner)
+
+  return {
+    variant,
+    address,
+    runner,
+    contract,
+    capabilities: {
+      liveTallies: config.readTally !== null,
+      onChainDescriptions: config.onChainDescriptions,
+      updatableShareholders: false,
+    },
+
+    isInitialized: () => contract.isInitialized(),
+    owner: () => contract.owner(),
+    getCompanyInfo: async () => {
+      const [name, symbol, , totalShares, totalShareholders, boardMembers] = await contract.getCompanyInfo()
+      return {
+        name,
+        symbol,
+        totalShares: Number(totalShares),
+        totalShareholders: Number(totalShareholders),
+        boardMembers: [...boardMembers],
+      }
+    },
+
+    isBoardMember: (member) => contract.isBoardMember(member),
+    getShareholder: async (shareholder, blockTag) => {
+      // Optimized returns 4 values, Final and Super append an isActive flag
+      const [isRegistered, shares, , name] = await batchedRead(contract, 'getShareholderInfo', [shareholder], blockTag)
+      return {
+        address: shareholder,
+        shares: Number(shares),
+        name,
+        active: isRegistered,
+      }
+    },
+
+    getTotalProposals: async () => Number(await contract.getTotalProposals()),
+    getProposal: async (id) => {
+      const [info, tally] = await Promise.all([
+        batchedRead(contract, 'getProposalInfo', [id]),
+        config.readTally ? config.readTally(contract, id) : Promise.resolve({ forVotes: 0, againstVotes: 0 }),
+      ])
+      const [proposalId, proposalType, title, description, proposer, creationTime, deadline, isActive, isFinalized, , threshold] = info
+      return {
+        id: Number(proposalId),
+        proposalType: Number(proposalType),
+        title,
+        description,
+        proposer,
+        startTime: Number(creationTime),
+        deadline: Number(deadline),
+        active: isActive,
+        executed: isFinalized,
+        forVotes: tally.forVotes,
+        againstVotes: tally.againstVotes,
+        threshold: Number(threshold),
+      }
+    },
+    hasVotedOn: async (id, voter) => (await batchedRead(contract, 'hasVotedOn', [id, voter]))[0],
+    getResults: async (id) => {
+      const [forVotes, againstVotes, abstainVotes, passed] = await contract.getDecryptedResults(id)
+      return {
+        proposalId: id,
+        forVotes: Number(forVotes),
+        againstVotes: Number(againstVotes),
+        abstainVotes: Number(abstainVotes),
+        passed,
+      }
+    },
+
+    initializeCompany: (name, symbol, totalShares) => contract.initializeCompany(name, symbol, '', totalShares),
+    addBoardMember: (member) => contract.addBoardMember(member),
+    addShareholder: (shareholder, shares, name) => contract.registerShareholderPlain(shareholder, shares, '', name),
+    createProposal: ({ proposalType, title, description, durationDays, attachmentHash = '' }, overrides = {}) =>
+      contract.createProposal(proposalType, title, description, attachmentHash, durationDays, overrides),
+    castVote: (id, choice, overrides = {}) => contract.castVotePlain(id, choice, overrides),
+    finalizeProposal: (id, overrides = {}) => contract.finalizeProposal(id, overrides),
+
+    estimateGas: {
+      createProposal: ({ proposalType, title, description, durationDays, attachmentHash = '' }) =>
+        contract.createProposal.estimateGas(proposalType, title, description, attachmentHash, durationDays),
+      castVote: (id, choice) => contract.castVotePlain.estimateGas(id, choice),
+      finalizeProposal: (id) => contract.finalizeProposal.estimateGas(id),
+    },
+
+    staticCall: {
+      addShareholder: async (shareholder, shares, name) => {
+        await contract.registerShareholderPlain.staticCall(shareholder, shares, '', name)
+      },
+      createProposal: async ({ proposalType, title, description, durationDays, attachmentHash = '' }) => {
+        await contract.createProposal.staticCall(proposalType, title, description, attachmentHash, durationDays)
+      },
+      castVote: async (id, choice) => {
+        await contract.castVotePlain.staticCall(id, choice)
+      },
+      finalizeProposal: async (id) => {
+        await contract.finalizeProposal.staticCall(id)
+      },
+    },
+
+    eventTopics: getGovernanceEventTopics(contract.interface, EXTENDED_EVENT_NAMES),
+    decodeLog: (log) => decodeGovernanceLog(log, contract.interface, EXTENDED_EVENT_NAMES),
+  }
+}
\ No newline at end of file
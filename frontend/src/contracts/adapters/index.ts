@@ -0,0 +1,88 @@
+import { ethers } from 'ethers'
+import { CONTRACT_ADDRESS, GOVERNANCE_VARIANT } from '@/utils/constants'
+import { getNetworkConfig } from '@/utils/web3'
+import { createUltimateAdapter } from './ultimateAdapter'
+import { createExtendedAdapter } from './extendedAdapter'
+import { GovernanceAdapter, GovernanceVariant, GOVERNANCE_VARIANT_LABELS } from './types'
+
+export * from './types'
+
+// A function that only one variant implements, checked in order
+const VARIANT_PROBES: Array<[GovernanceVariant, string]> = [
+  ['ultimate', 'initCompany(string,uint256)'],
+  ['optimized', 'getProposalContent(uint256)'],
+  ['super', 'getProposalVotes(uint256)'],
+  ['final', 'initializeCompany(string,string,string,uint256)'],
+]
+
+const isGovernanceVariant = (value: string): value is GovernanceVariant =>
+  value in GOVERNANCE_VARIANT_LABELS
+
+// Solidity dispatchers compare calldata against each selector pushed as a constant. Leading zero
+// bytes are dropped, so a selector like 0x00ab12cd is pushed with PUSH3 (0x62) rather than PUSH4 (0x63).
+const hasSelector = (bytecode: string, signature: string): boolean => {
+  const selector = ethers.stripZerosLeft(ethers.id(signature).slice(0, 10)).slice(2)
+  const push = (0x5f + selector.length / 2).toString(16)
+  return selector.length > 0 && bytecode.includes(`${push}${selector}`)
+}
+
+// Detect which governance variant is deployed by probing its runtime bytecode
+export const detectGovernanceVariant = async (
+  provider: ethers.Provider,
+  address: string = CONTRACT_ADDRESS
+): Promise<GovernanceVariant> => {
+  const bytecode = (await provider.getCode(address)).toLowerCase()
+  if (bytecode === '0x') {
+    throw new Error(`No contract deployed at ${address}`)
+  }
+
+  const match = VARIANT_PROBES.find(([, signature]) => hasSelector(bytecode, signature))
+  if (!match) {
+    throw new Error(`Contract at ${address} is not a supported governance variant`)
+  }
+  return match[0]
+}
+
+export const createAdapterForVariant = (
+  variant: GovernanceVariant,
+  runner: ethers.ContractRunner,
+  address: string = CONTRACT_ADDRESS
+): GovernanceAdapter => {
+  if (variant === 'ultimate') {
+    return createUltimateAdapter(runner, address)
+  }
+  return createExtendedAdapter(variant, runner, address)
+}
+
+// Contract address configured for the runner's network
+const resolveContractAddress = async (runner: ethers.ContractRunner): Promise<string> => {
+  if (!runner.provider) return CONTRACT_ADDRESS
+  const { chainId } = await runner.provider.getNetwork()
+  const address = getNetworkConfig(Number(chainId))?.contractAddress
+  if (!address) {
+    throw new Error(`No governance contract configured for chain ${chainId}`)
+  }
+  return address
+}
+
+// Create the adapter for the deployed contract, using VITE_GOVERNANCE_VARIANT when set.
+// Without an address, the contract configured for the runner's network is used.
+export const createGovernanceAdapter = async (
+  runner: ethers.ContractRunner,
+  address?: string
+): Promise<GovernanceAdapter> => {
+  address = address ?? await resolveContractAddress(runner)
+
+  if (GOVERNANCE_VARIANT) {
+    if (!isGovernanceVariant(GOVERNANCE_VARIANT)) {
+      throw new Error(`Unknown governance variant "${GOVERNANCE_VARIANT}"`)
+    }
+    return createAdapterForVariant(GOVERNANCE_VARIANT, runner, address)
+  }
+
+  if (!runner.provider) {
+    throw new Error('Cannot detect governance variant without a provider')
+  }
+  const variant = await detectGovernanceVariant(runner.provider, address)
+  return createAdapterForVariant(variant, runner, address)
+}
\ No newline at end of file
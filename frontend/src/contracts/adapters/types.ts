@@ -0,0 +1,94 @@
+import { ethers } from 'ethers'
+import type { GovernanceEvent } from '@/contracts/governanceClient'
+import {
+  CompanyInfo,
+  Proposal,
+  ProposalResults,
+  ProposalType,
+  Shareholder,
+  VoteChoice,
+} from '@/types/web3'
+
+// Governance contracts shipped in /contracts that the frontend can drive
+export type GovernanceVariant = 'ultimate' | 'final' | 'super' | 'optimized'
+
+export const GOVERNANCE_VARIANT_LABELS: Record<GovernanceVariant, string> = {
+  ultimate: 'CorporateGovernanceUltimate',
+  final: 'CorporateGovernanceFinal',
+  super: 'CorporateGovernanceSuper',
+  optimized: 'CorporateGovernanceOptimized',
+}
+
+// Features that differ between variants
+export interface AdapterCapabilities {
+  // Tallies are readable while voting is open (getProposalVotes, or Ultimate's public proposals getter)
+  liveTallies: boolean
+  // Proposal descriptions are stored on-chain
+  onChainDescriptions: boolean
+  // addShareholder may overwrite an existing registration
+  updatableShareholders: boolean
+}
+
+export interface CreateProposalParams {
+  proposalType: ProposalType
+  title: string
+  description: string
+  durationDays: number
+  // Content hash of the off-chain description, recorded where the contract accepts one
+  attachmentHash?: string
+}
+
+type TxResponse = Promise<ethers.ContractTransactionResponse>
+
+// Variant-independent interface used by useContract and the pages
+export interface GovernanceAdapter {
+  readonly variant: GovernanceVariant
+  readonly address: string
+  readonly runner: ethers.ContractRunner
+  readonly contract: ethers.Contract
+  readonly capabilities: AdapterCapabilities
+
+  // Company
+  isInitialized: () => Promise<boolean>
+  owner: () => Promise<string>
+  getCompanyInfo: () => Promise<CompanyInfo>
+
+  // Board and shareholders
+  isBoardMember: (address: string) => Promise<boolean>
+  // blockTag reads the registration as it stood at that block
+  getShareholder: (address: string, blockTag?: ethers.BlockTag) => Promise<Shareholder>
+
+  // Proposals
+  getTotalProposals: () => Promise<number>
+  getProposal: (id: number) => Promise<Proposal>
+  hasVotedOn: (id: number, voter: string) => Promise<boolean>
+  // Board only, available once the proposal is finalized
+  getResults: (id: number) => Promise<ProposalResults>
+
+  // Transactions
+  initializeCompany: (name: string, symbol: string, totalShares: number) => TxResponse
+  addBoardMember: (address: string) => TxResponse
+  addShareholder: (address: string, shares: number, name: string) => TxResponse
+  createProposal: (params: CreateProposalParams, overrides?: ethers.Overrides) => TxResponse
+  castVote: (id: number, choice: VoteChoice, overrides?: ethers.Overrides) => TxResponse
+  finalizeProposal: (id: number, overrides?: ethers.Overrides) => TxResponse
+
+  // Gas estimation
+  estimateGas: {
+    createProposal: (params: CreateProposalParams) => Promise<bigint>
+    castVote: (id: number, choice: VoteChoice) => Promise<bigint>
+    finalizeProposal: (id: number) => Promise<bigint>
+  }
+
+  // Simulate a transaction as the connected account; rejects with the revert reason
+  staticCall: {
+    addShareholder: (address: string, shares: number, name: string) => Promise<void>
+    createProposal: (params: CreateProposalParams) => Promise<void>
+    castVote: (id: number, choice: VoteChoice) => Promise<void>
+    finalizeProposal: (id: number) => Promise<void>
+  }
+
+  // Events, normalized to the CompanyInit / ShareholderAdd / ProposalAdd / VoteAdd names
+  eventTopics: string[]
+  decodeLog: (log: ethers.Log) => GovernanceEvent | null
+}
\ No newline at end of file
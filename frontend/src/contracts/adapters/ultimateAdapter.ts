@@ -0,0 +1,104 @@
+import { ethers } from 'ethers'
+import {
+  createGovernanceClient,
+  getGovernanceEventTopics,
+  GOVERNANCE_INTERFACE,
+  ULTIMATE_EVENT_NAMES,
+} from '@/contracts/governanceClient'
+import { GovernanceAdapter } from './types'
+
+// CorporateGovernanceUltimate: initCompany / addBoard / 3-arg createProposal / vote
+export const createUltimateAdapter = (
+  runner: ethers.ContractRunner,
+  address: string
+): GovernanceAdapter => {
+  const client = createGovernanceClient(runner, address)
+
+  return {
+    variant: 'ultimate',
+    address,
+    runner,
+    contract: client.contract,
+    capabilities: {
+      liveTallies: true,
+      onChainDescriptions: false,
+      updatableShareholders: true,
+    },
+
+    isInitialized: () => client.initialized(),
+    owner: () => client.owner(),
+    getCompanyInfo: async () => {
+      const info = await client.getCompanyInfo()
+      return {
+        name: info.name,
+        symbol: info.symbol,
+        totalShares: info.totalShares,
+        totalShareholders: info.totalShareholders,
+        boardMembers: info.boardMembers,
+      }
+    },
+
+    isBoardMember: (member) => client.isBoardMember(member),
+    getShareholder: async (shareholder, blockTag) => {
+      const info = await client.getShareholderInfo(shareholder, blockTag)
+      return {
+        address: shareholder,
+        shares: info.shares,
+        name: info.name,
+        active: info.isRegistered && info.active,
+      }
+    },
+
+    getTotalProposals: () => client.getTotalProposals(),
+    getProposal: async (id) => {
+      // getProposalInfo validates the ID; the tallies come from the public proposals getter
+      const info = await client.getProposalInfo(id)
+      const { forVotes, againstVotes } = await client.proposals(id)
+      return {
+        id: info.id,
+        proposalType: info.proposalType,
+        title: info.title,
+        description: info.description,
+        proposer: info.proposer,
+        startTime: info.startTime,
+        deadline: info.deadline,
+        active: info.active,
+        executed: info.executed,
+        forVotes,
+        againstVotes,
+        threshold: info.threshold,
+      }
+    },
+    hasVotedOn: (id, voter) => client.hasVotedOn(id, voter),
+    getResults: async (id) => {
+      const results = await client.getDecryptedResults(id)
+      return { proposalId: id, ...results }
+    },
+
+    initializeCompany: (name, _symbol, totalShares) => client.initCompany(name, totalShares),
+    addBoardMember: (member) => client.addBoard(member),
+    addShareholder: (shareholder, shares, name) => client.addShareholder(shareholder, shares, name),
+    createProposal: ({ proposalType, title, durationDays }, overrides) =>
+      client.createProposal(proposalType, title, durationDays, overrides),
+    castVote: (id, choice, overrides) => client.vote(id, choice, overrides),
+    finalizeProposal: (id, overrides) => client.finalize(id, overrides),
+
+    estimateGas: {
+      createProposal: ({ proposalType, title, durationDays }) =>
+        client.estimateGas.createProposal(proposalType, title, durationDays),
+      castVote: (id, choice) => client.estimateGas.vote(id, choice),
+      finalizeProposal: (id) => client.estimateGas.finalize(id),
+    },
+
+    staticCall: {
+      addShareholder: (shareholder, shares, name) => client.staticCall.addShareholder(shareholder, shares, name),
+      createProposal: ({ proposalType, title, durationDays }) =>
+        client.staticCall.createProposal(proposalType, title, durationDays),
+      castVote: (id, choice) => client.staticCall.vote(id, choice),
+      finalizeProposal: (id) => client.staticCall.finalize(id),
+    },
+
+    eventTopics: getGovernanceEventTopics(GOVERNANCE_INTERFACE, ULTIMATE_EVENT_NAMES),
+    decodeLog: client.decodeLog,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+/// <reference types="vite/client" />
+import { ethers } from 'ethers'
+import type { GovernanceAdapter } from '@/contracts/adapters/types'
+import { DeploymentManifest, NetworkConfig } from '@/types/web3'
+
+// Deployment manifests written by scripts/deploy-ultimate.js into the repository's deployments/
+// directory, bundled at build time. A network without a manifest falls back to its env settings.
+
+const MANIFESTS: DeploymentManifest[] = Object.values(
+  import.meta.glob<DeploymentManifest>('@deployments/*.json', { eager: true, import: 'default' })
+)
+
+export const getDeploymentManifest = (chainId: number): DeploymentManifest | undefined =>
+  MANIFESTS.find((manifest) => manifest.chainId === chainId)
+
+// Must match abiHash in scripts/deploy-ultimate.js: sorted fragments, so ABI order does not matter
+export const hashContractAbi = (contractInterface: ethers.Interface): string =>
+  ethers.id([...contractInterface.format()].sort().join('\n'))
+
+// Compare the contract the app is about to use with the network's manifest; each returned
+// message describes one mismatch. Networks without a manifest are not checked.
+export const verifyDeployment = async (
+  adapter: GovernanceAdapter,
+  network: NetworkConfig
+): Promise<string[]> => {
+  const manifest = getDeploymentManifest(network.chainId)
+  if (!manifest) return []
+
+  const warnings: string[] = []
+  if (adapter.address.toLowerCase() !== manifest.address.toLowerCase()) {
+    warnings.push(
+      `${network.name} is configured for ${adapter.address}, but the last deployment is at ${manifest.address}.`
+    )
+    // The remaining checks describe the manifest's contract, not this one
+    return warnings
+  }
+
+  const provider = adapter.runner.provider
+  if (provider) {
+    const code = await provider.getCode(adapter.address)
+    if (code === '0x') {
+      warnings.push(`No contract at ${adapter.address} on ${network.name}; redeploy it (a restarted Hardhat node starts empty).`)
+    } else if (ethers.keccak256(code) !== manifest.codeHash) {
+      warnings.push(`The bytecode at ${adapter.address} differs from the ${manifest.contractName} deployed on ${manifest.deployedAt}.`)
+    }
+  }
+
+  if (adapter.variant !== manifest.variant) {
+    warnings.push(`Detected the ${adapter.variant} variant, but the manifest records ${manifest.variant}.`)
+  } else if (hashContractAbi(adapter.contract.interface) !== manifest.abiHash) {
+    warnings.push(`The frontend's ${manifest.contractName} ABI differs from the deployed one; recompile the contracts and rebuild.`)
+  }
+  return warnings
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { ethers } from 'ethers'
+import { Web3Error, Web3ErrorCode } from '@/types/web3'
+import { ERROR_MESSAGES } from '@/utils/constants'
+
+// Turns wallet, RPC and revert errors into a Web3Error the UI can act on. Each governance
+// variant words its require() messages differently, so reasons are matched by pattern.
+
+const REVERT_PATTERNS: [RegExp, Web3ErrorCode][] = [
+  // "Board only", "Only board members", "Only board members can perform this action"
+  [/^(board only|only board)|not (a )?board member/i, Web3ErrorCode.NOT_BOARD_MEMBER],
+  // "Shareholder only", "Only verified shareholders", "Only verified shareholders can vote"
+  [/^(shareholder only|only (verified )?shareholders)|not (a )?shareholder/i, Web3ErrorCode.NOT_SHAREHOLDER],
+  // Super rejects a repeat vote as "Invalid vote"; the UI never sends a bad choice
+  [/already voted|^invalid vote$/i, Web3ErrorCode.ALREADY_VOTED],
+  [/^invalid (proposal|id|proposal id)$/i, Web3ErrorCode.INVALID_PROPOSAL_ID],
+  [/^cannot vote$|voting (period has )?ended/i, Web3ErrorCode.PROPOSAL_EXPIRED],
+  [/not active|already finalized/i, Web3ErrorCode.PROPOSAL_NOT_ACTIVE],
+  [/^cannot finalize$|not ended/i, Web3ErrorCode.VOTING_NOT_ENDED],
+  // getResults before finalize: "Not finalized", "Proposal not finalized", "Still active"
+  [/not finalized|^still active$/i, Web3ErrorCode.NOT_FINALIZED],
+  [/already registered/i, Web3ErrorCode.ALREADY_REGISTERED],
+]
+
+// Knows Error(string) and Panic(uint256) only
+const BUILTIN_ERRORS = new ethers.Interface([])
+
+// Wallets nest the revert data at different depths
+const findRevertData = (error: any): string | null => {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.data?.data, error?.error?.data?.data]
+  return candidates.find((data) => typeof data === 'string' && ethers.isHexString(data) && data.length >= 10) ?? null
+}
+
+const describeRevert = (revert: { name: string; args: ArrayLike<any> }): string => {
+  if (revert.name === 'Error') return String(revert.args[0])
+  if (revert.name === 'Panic') return `Panic ${ethers.toBeHex(revert.args[0])}`
+  // Custom errors: AlreadyVoted -> "Already Voted"
+  return revert.name.replace(/([a-z])([A-Z])/g, '$1 $2')
+}
+
+// The revert reason carried by an error, or null when it is not a revert
+export const decodeRevertReason = (error: any, iface?: ethers.Interface): string | null => {
+  if (error?.revert?.name) return describeRevert(error.revert)
+  if (typeof error?.reason === 'string' && error.reason) return error.reason
+
+  const data = findRevertData(error)
+  if (data) {
+    try {
+      const parsed = (iface ?? BUILTIN_ERRORS).parseError(data)
+      if (parsed) return describeRevert(parsed)
+    } catch {
+      // Undecodable data falls through to the message
+    }
+  }
+
+  const match = /reverted with reason string '(.+)'|execution reverted: (.+)/.exec(error?.message ?? '')
+  return match ? (match[1] ?? match[2]).trim() : null
+}
+
+// Pass the contract's interface to decode custom errors from raw wallet data
+export const normalizeError = (error: unknown, iface?: ethers.Interface): Web3Error => {
+  if (error instanceof Web3Error) return error
+  const err = error as any
+
+  if (err?.code === 4001 || ethers.isError(err, 'ACTION_REJECTED')) {
+    return new Web3Error(ERROR_MESSAGES[4001], Web3ErrorCode.USER_REJECTED, error)
+  }
+  if (ethers.isError(err, 'INSUFFICIENT_FUNDS') || /insufficient funds/i.test(err?.message ?? '')) {
+    return new Web3Error(ERROR_MESSAGES.INSUFFICIENT_FUNDS, Web3ErrorCode.INSUFFICIENT_BALANCE, error)
+  }
+
+  const reason = decodeRevertReason(err, iface)
+  if (reason !== null) {
+    const code = REVERT_PATTERNS.find(([pattern]) => pattern.test(reason))?.[1]
+    return code
+      ? new Web3Error(ERROR_MESSAGES[code], code, { reason, error })
+      : new Web3Error(`${ERROR_MESSAGES.EXECUTION_REVERTED}: ${reason}`, Web3ErrorCode.CONTRACT_ERROR, { reason, error })
+  }
+  if (ethers.isError(err, 'CALL_EXCEPTION')) {
+    return new Web3Error(ERROR_MESSAGES.EXECUTION_REVERTED, Web3ErrorCode.CONTRACT_ERROR, error)
+  }
+  if (ethers.isError(err, 'NETWORK_ERROR') || ethers.isError(err, 'TIMEOUT') || ethers.isError(err, 'SERVER_ERROR')) {
+    return new Web3Error(ERROR_MESSAGES.NETWORK_ERROR, Web3ErrorCode.NETWORK_ERROR, error)
+  }
+
+  return new Web3Error(err?.shortMessage || err?.message || 'Unknown error', undefined, error)
+}
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { ethers } from 'ethers'
+import UltimateArtifact from '@artifacts/contracts/CorporateGovernanceUltimate.sol/CorporateGovernanceUltimate.json'
+import { ProposalType, VoteChoice } from '@/types/web3'
+import { CONTRACT_ADDRESS } from '@/utils/constants'
+import { batchedRead } from './multicall'
+
+// ABI taken from the Hardhat compilation output so it can never drift from the contract
+export const GOVERNANCE_ABI = UltimateArtifact.abi
+export const GOVERNANCE_INTERFACE = new ethers.Interface(GOVERNANCE_ABI)
+
+// Decoded return structs
+
+// getProposalInfo(id) -> (id, pType, title, "", proposer, 0, deadline, active, !active, 0, threshold)
+// Slots 3, 5 and 9 are constant placeholders on CorporateGovernanceUltimate: the description is
+// not stored, there is no start time, and the tallies are read through proposals() instead.
+export interface ProposalInfoStruct {
+  id: number
+  proposalType: ProposalType
+  title: string
+  description: string
+  proposer: string
+  startTime: number
+  deadline: number
+  active: boolean
+  executed: boolean
+  threshold: number
+}
+
+// proposals(id - 1) -> (pType, title, proposer, deadline, active, forVotes, againstVotes, threshold)
+// The public array getter; unlike getResults it returns the running tallies to anyone.
+export interface ProposalStruct {
+  proposalType: ProposalType
+  title: string
+  proposer: string
+  deadline: number
+  active: boolean
+  forVotes: number
+  againstVotes: number
+  threshold: number
+}
+
+// getProposalBasic(id) -> (pType, title, proposer)
+export interface ProposalBasicStruct {
+  proposalType: ProposalType
+  title: string
+  proposer: string
+}
+
+// getProposalStatus(id) -> (deadline, active, threshold)
+export interface ProposalStatusStruct {
+  deadline: number
+  active: boolean
+  threshold: number
+}
+
+// getShareholderInfo(addr) -> (active, shares, "", name, active)
+export interface ShareholderInfoStruct {
+  isRegistered: boolean
+  shares: number
+  companyId: string
+  name: string
+  active: boolean
+}
+
+// getCompanyInfo() -> (name, "CORP", "", totalShares, 0, boardList)
+export interface CompanyInfoStruct {
+  name: string
+  symbol: string
+  registrationNumber: string
+  totalShares: number
+  totalShareholders: number
+  boardMembers: string[]
+}
+
+// getResults(id) -> (forVotes, againstVotes, passed)
+export interface ResultsStruct {
+  forVotes: number
+  againstVotes: number
+  passed: boolean
+}
+
+// getDecryptedResults(id) -> (forVotes, againstVotes, 0, passed)
+export interface DecryptedResultsStruct extends ResultsStruct {
+  abstainVotes: number
+}
+
+// Decoded events
+export interface GovernanceLogMeta {
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+export type GovernanceEvent =
+  | ({ name: 'CompanyInit'; companyName: string } & GovernanceLogMeta)
+  | ({ name: 'ShareholderAdd'; shareholder: string } & GovernanceLogMeta)
+  | ({ name: 'ProposalAdd'; proposalId: number } & GovernanceLogMeta)
+  | ({ name: 'VoteAdd'; proposalId: number; voter: string; choice?: VoteChoice } & GovernanceLogMeta)
+
+export type GovernanceEventName = GovernanceEvent['name']
+
+type Overrides = ethers.Overrides
+
+// Typed view over the deployed CorporateGovernanceUltimate contract
+export interface GovernanceClient {
+  readonly address: string
+  readonly contract: ethers.Contract
+  readonly runner: ethers.ContractRunner
+
+  // Company
+  companyName: () => Promise<string>
+  totalShares: () => Promise<number>
+  initialized: () => Promise<boolean>
+  owner: () => Promise<string>
+  getCompanyInfo: () => Promise<CompanyInfoStruct>
+
+  // Board and shareholders
+  isBoardMember: (member: string) => Promise<boolean>
+  // blockTag reads the registration as it stood at that block
+  getShareholderInfo: (address: string, blockTag?: ethers.BlockTag) => Promise<ShareholderInfoStruct>
+
+  // Proposals
+  getTotalProposals: () => Promise<number>
+  getProposalBasic: (id: number) => Promise<ProposalBasicStruct>
+  getProposalStatus: (id: number) => Promise<ProposalStatusStruct>
+  getProposalInfo: (id: number) => Promise<ProposalInfoStruct>
+  // Takes the proposal ID, not the array index
+  proposals: (id: number) => Promise<ProposalStruct>
+  hasVotedOn: (id: number, voter: string) => Promise<boolean>
+  getResults: (id: number) => Promise<ResultsStruct>
+  getDecryptedResults: (id: number) => Promise<DecryptedResultsStruct>
+
+  // Transactions
+  initCompany: (name: string, shares: number, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+  addBoard: (member: string, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+  addShareholder: (address: string, shares: number, name: string, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+  createProposal: (proposalType: ProposalType, title: string, durationDays: number, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+  vote: (id: number, choice: VoteChoice, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+  finalize: (id: number, overrides?: Overrides) => Promise<ethers.ContractTransactionResponse>
+
+  // Gas estimation
+  estimateGas: {
+    addShareholder: (address: string, shares: number, name: string) => Promise<bigint>
+    createProposal: (proposalType: ProposalType, title: string, durationDays: number) => Promise<bigint>
+    vote: (id: number, choice: VoteChoice) => Promise<bigint>
+    finalize: (id: number) => Promise<bigint>
+  }
+
+  // Simulated calls; reject with the revert reason
+  staticCall: {
+    addShareholder: (address: string, shares: number, name: string) => Promise<void>
+    createProposal: (proposalType: ProposalType, title: string, durationDays: number) => Promise<void>
+    vote: (id: number, choice: VoteChoice) => Promise<void>
+    finalize: (id: number) => Promise<void>
+  }
+
+  // Event filters
+  filters: {
+    CompanyInit: () => ethers.DeferredTopicFilter
+    ShareholderAdd: (shareholder?: string) => ethers.DeferredTopicFilter
+    ProposalAdd: (proposalId?: number) => ethers.DeferredTopicFilter
+    VoteAdd: (proposalId?: number, voter?: string) => ethers.DeferredTopicFilter
+  }
+  decodeLog: (log: ethers.Log) => GovernanceEvent | null
+}
+
+// Maps a contract's own event names onto the canonical GovernanceEvent names
+export type GovernanceEventNames = Record<GovernanceEventName, string>
+
+export const ULTIMATE_EVENT_NAMES: GovernanceEventNames = {
+  CompanyInit: 'CompanyInit',
+  ShareholderAdd: 'ShareholderAdd',
+  ProposalAdd: 'ProposalAdd',
+  VoteAdd: 'VoteAdd',
+}
+
+// Topic hashes of the governance events, for use as topics[0] in getLogs
+export const getGovernanceEventTopics = (
+  iface: ethers.Interface,
+  names: GovernanceEventNames
+): string[] => Object.values(names).map((name) => iface.getEvent(name)!.topicHash)
+
+// Decode a raw log into its canonical event, or null for unrelated logs.
+// Every variant puts the name / shareholder / proposal ID first and the voter second.
+export const decodeGovernanceLog = (
+  log: ethers.Log,
+  iface: ethers.Interface = GOVERNANCE_INTERFACE,
+  names: GovernanceEventNames = ULTIMATE_EVENT_NAMES
+): GovernanceEvent | null => {
+  let parsed: ethers.LogDescription | null
+  try {
+    parsed = iface.parseLog({ topics: [...log.topics], data: log.data })
+  } catch {
+    return null
+  }
+  if (!parsed) return null
+
+  const meta: GovernanceLogMeta = {
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  }
+
+  switch (parsed.name) {
+    case names.CompanyInit:
+      return { name: 'CompanyInit', companyName: parsed.args[0], ...meta }
+    case names.ShareholderAdd:
+      return { name: 'ShareholderAdd', shareholder: ethers.getAddress(parsed.args[0]), ...meta }
+    case names.ProposalAdd:
+      return { name: 'ProposalAdd', proposalId: Number(parsed.args[0]), ...meta }
+    case names.VoteAdd:
+      return {
+        name: 'VoteAdd',
+        proposalId: Number(parsed.args[0]),
+        voter: ethers.getAddress(parsed.args[1]),
+        // Only variants that emit the ballot (Optimized) carry a third argument
+        ...(parsed.args.length > 2 ? { choice: Number(parsed.args[2]) } : {}),
+        ...meta,
+      }
+    default:
+      return null
+  }
+}
+
+// Create a typed client bound to a signer (read/write) or provider (read-only)
+export const createGovernanceClient = (
+  runner: ethers.ContractRunner,
+  address: string = CONTRACT_ADDRESS
+): GovernanceClient => {
+  const contract = new ethers.Contract(address, GOVERNANCE_ABI, runner)
+
+  return {
+    address,
+    contract,
+    runner,
+
+    companyName: () => contract.companyName(),
+    totalShares: async () => Number(await contract.totalShares()),
+    initialized: () => contract.initialized(),
+    owner: () => contract.owner(),
+    getCompanyInfo: async () => {
+      const [name, symbol, registrationNumber, totalShares, totalShareholders, boardMembers] =
+        await contract.getCompanyInfo()
+      return {
+        name,
+        symbol,
+        registrationNumber,
+        totalShares: Number(totalShares),
+        totalShareholders: Number(totalShareholders),
+        boardMembers: [...boardMembers],
+      }
+    },
+
+    isBoardMember: (member) => contract.isBoardMember(member),
+    getShareholderInfo: async (shareholder, blockTag) => {
+      const [isRegistered, shares, companyId, name, active] =
+        await batchedRead(contract, 'getShareholderInfo', [shareholder], blockTag)
+      return { isRegistered, shares: Number(shares), companyId, name, active }
+    },
+
+    getTotalProposals: async () => Number(await contract.getTotalProposals()),
+    getProposalBasic: async (id) => {
+      const [proposalType, title, proposer] = await contract.getProposalBasic(id)
+      return { proposalType: Number(proposalType), title, proposer }
+    },
+    getProposalStatus: async (id) => {
+      const [deadline, active, threshold] = await batchedRead(contract, 'getProposalStatus', [id])
+      return { deadline: Number(deadline), active, threshold: Number(threshold) }
+    },
+    getProposalInfo: async (id) => {
+      const [proposalId, proposalType, title, description, proposer, startTime, deadline, active, executed, , threshold] =
+        await batchedRead(contract, 'getProposalInfo', [id])
+      return {
+        id: Number(proposalId),
+        proposalType: Number(proposalType),
+        title,
+        description,
+        proposer,
+        startTime: Number(startTime),
+        deadline: Number(deadline),
+        active,
+        executed,
+        threshold: Number(threshold),
+      }
+    },
+    proposals: async (id) => {
+      const [proposalType, title, proposer, deadline, active, forVotes, againstVotes, threshold] =
+        await batchedRead(contract, 'proposals', [id - 1])
+      return {
+        proposalType: Number(proposalType),
+        title,
+        proposer,
+        deadline: Number(deadline),
+        active,
+        forVotes: Number(forVotes),
+        againstVotes: Number(againstVotes),
+        threshold: Number(threshold),
+      }
+    },
+    hasVotedOn: async (id, voter) => (await batchedRead(contract, 'hasVotedOn', [id, voter]))[0],
+    getResults: async (id) => {
+      const [forVotes, againstVotes, passed] = await contract.getResults(id)
+      return { forVotes: Number(forVotes), againstVotes: Number(againstVotes), passed }
+    },
+    getDecryptedResults: async (id) => {
+      const [forVotes, againstVotes, abstainVotes, passed] = await contract.getDecryptedResults(id)
+      return {
+        forVotes: Number(forVotes),
+        againstVotes: Number(againstVotes),
+        abstainVotes: Number(abstainVotes),
+        passed,
+      }
+    },
+
+    initCompany: (name, shares, overrides = {}) => contract.initCompany(name, shares, overrides),
+    addBoard: (member, overrides = {}) => contract.addBoard(member, overrides),
+    addShareholder: (shareholder, shares, name, overrides = {}) =>
+      contract.addShareholder(shareholder, shares, name, overrides),
+    createProposal: (proposalType, title, durationDays, overrides = {}) =>
+      contract.createProposal(proposalType, title, durationDays, overrides),
+    vote: (id, choice, overrides = {}) => contract.vote(id, choice, overrides),
+    finalize: (id, overrides = {}) => contract.finalize(id, overrides),
+
+    estimateGas: {
+      addShareholder: (shareholder, shares, name) =>
+        contract.addShareholder.estimateGas(shareholder, shares, name),
+      createProposal: (proposalType, title, durationDays) =>
+        contract.createProposal.estimateGas(proposalType, title, durationDays),
+      vote: (id, choice) => contract.vote.estimateGas(id, choice),
+      finalize: (id) => contract.finalize.estimateGas(id),
+    },
+
+    staticCall: {
+      addShareholder: async (shareholder, shares, name) => {
+        await contract.addShareholder.staticCall(shareholder, shares, name)
+      },
+      createProposal: async (proposalType, title, durationDays) => {
+        await contract.createProposal.staticCall(proposalType, title, durationDays)
+      },
+      vote: async (id, choice) => {
+        await contract.vote.staticCall(id, choice)
+      },
+      finalize: async (id) => {
+        await contract.finalize.staticCall(id)
+      },
+    },
+
+    filters: {
+      CompanyInit: () => contract.filters.CompanyInit(),
+      ShareholderAdd: (shareholder) => contract.filters.ShareholderAdd(shareholder),
+      ProposalAdd: (proposalId) => contract.filters.ProposalAdd(proposalId),
+      VoteAdd: (proposalId, voter) => contract.filters.VoteAdd(proposalId, voter),
+    },
+    decodeLog: (log) => decodeGovernanceLog(log),
+  }
+}
\ No newline at end of file
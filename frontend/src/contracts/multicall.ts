@@ -0,0 +1,156 @@
+import { ethers } from 'ethers'
+import { MULTICALL_CONFIG } from '@/utils/constants'
+
+// Aggregates view calls issued in the same tick into Multicall3 aggregate3 requests.
+// Without Multicall3 (e.g. a fresh Hardhat node) the calls are sent concurrently, which
+// JsonRpcProvider packs into a single JSON-RPC batch.
+// Only use it for views that do not depend on msg.sender: Multicall3 becomes the caller.
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]
+
+export type BatchMode = 'multicall' | 'rpc'
+
+export interface ReadBatcher {
+  // Queue a view call; resolves with the decoded result
+  call: (contract: ethers.Contract, method: string, args: unknown[]) => Promise<ethers.Result>
+  // How this provider's batches are sent
+  getMode: () => Promise<BatchMode>
+}
+
+interface PendingCall {
+  target: string
+  iface: ethers.Interface
+  fragment: ethers.FunctionFragment
+  data: string
+  resolve: (result: ethers.Result) => void
+  reject: (error: unknown) => void
+}
+
+const batchers = new WeakMap<ethers.Provider, ReadBatcher>()
+
+const createReadBatcher = (provider: ethers.Provider): ReadBatcher => {
+  const multicall = new ethers.Contract(MULTICALL_CONFIG.ADDRESS, MULTICALL3_ABI, provider)
+  let queue: PendingCall[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let modePromise: Promise<BatchMode> | null = null
+
+  const getMode = (): Promise<BatchMode> => {
+    if (!modePromise) {
+      modePromise = provider
+        .getCode(MULTICALL_CONFIG.ADDRESS)
+        .then((code): BatchMode => (code === '0x' ? 'rpc' : 'multicall'))
+        .catch((): BatchMode => 'rpc')
+    }
+    return modePromise
+  }
+
+  const settle = (call: PendingCall, returnData: string) => {
+    try {
+      call.resolve(call.iface.decodeFunctionResult(call.fragment, returnData))
+    } catch (error) {
+      call.reject(error)
+    }
+  }
+
+  // One eth_call per view; concurrent calls share a JSON-RPC batch
+  const sendIndividually = (calls: PendingCall[]) =>
+    Promise.all(calls.map(async (call) => {
+      try {
+        settle(call, await provider.call({ to: call.target, data: call.data }))
+      } catch (error) {
+        call.reject(error)
+      }
+    }))
+
+  const sendAggregated = async (calls: PendingCall[]) => {
+    let results: Array<{ success: boolean; returnData: string }>
+    try {
+      results = await multicall.aggregate3.staticCall(
+        calls.map((call) => ({ target: call.target, allowFailure: true, callData: call.data }))
+      )
+    } catch (error) {
+      console.warn('Multicall3 request failed, sending calls individually:', error)
+      await sendIndividually(calls)
+      return
+    }
+
+    results.forEach(({ success, returnData }, index) => {
+      const call = calls[index]
+      if (success) {
+        settle(call, returnData)
+      } else {
+        call.reject(call.iface.makeError(returnData, { to: call.target, data: call.data }))
+      }
+    })
+  }
+
+  const flush = async () => {
+    timer = null
+    const pending = queue
+    queue = []
+
+    const mode = await getMode()
+    for (let i = 0; i < pending.length; i += MULTICALL_CONFIG.MAX_CALLS) {
+      const chunk = pending.slice(i, i + MULTICALL_CONFIG.MAX_CALLS)
+      // A lone call gains nothing from aggregation
+      if (mode === 'multicall' && chunk.length > 1) {
+        await sendAggregated(chunk)
+      } else {
+        await sendIndividually(chunk)
+      }
+    }
+  }
+
+  return {
+    call: (contract, method, args) => {
+      const fragment = contract.interface.getFunction(method, args)
+      if (!fragment) {
+        return Promise.reject(new Error(`Unknown contract method ${method}`))
+      }
+
+      return new Promise((resolve, reject) => {
+        queue.push({
+          target: contract.target as string,
+          iface: contract.interface,
+          fragment,
+          data: contract.interface.encodeFunctionData(fragment, args),
+          resolve,
+          reject,
+        })
+        if (!timer) {
+          timer = setTimeout(flush, MULTICALL_CONFIG.BATCH_WINDOW_MS)
+        }
+      })
+    },
+    getMode,
+  }
+}
+
+// Batcher shared by every contract reading through the same provider
+export const getReadBatcher = (provider: ethers.Provider): ReadBatcher => {
+  let batcher = batchers.get(provider)
+  if (!batcher) {
+    batcher = createReadBatcher(provider)
+    batchers.set(provider, batcher)
+  }
+  return batcher
+}
+
+// Read a view through the provider's batcher, or directly when the runner has no provider.
+// Reads at a past block are sent on their own, since batches are always read at the latest block.
+export const batchedRead = (
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[],
+  blockTag?: ethers.BlockTag
+): Promise<ethers.Result> => {
+  if (blockTag !== undefined) {
+    return contract.getFunction(method).staticCallResult(...args, { blockTag })
+  }
+  const provider = contract.runner?.provider
+  return provider
+    ? getReadBatcher(provider).call(contract, method, args)
+    : contract.getFunction(method).staticCallResult(...args)
+}
\ No newline at end of file
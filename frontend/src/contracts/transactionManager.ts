@@ -0,0 +1,211 @@
+import { ethers } from 'ethers'
+import { TransactionKind, TransactionState, TransactionStatus } from '@/types/web3'
+import { STORAGE_KEYS, TIME_CONSTANTS, TRANSACTION_CONFIG } from '@/utils/constants'
+import { getNetworkConfig, getReadOnlyProvider } from '@/utils/web3'
+
+// Records every transaction the app submits in localStorage and follows it until it is
+// confirmed, fails, or loses its nonce to another transaction, including after a reload.
+// Transactions are followed over the network's public RPC so no wallet is needed to resume.
+
+export interface TransactionMeta {
+  kind: TransactionKind
+  description: string
+  proposalId?: number | null
+}
+
+const FINAL_STATUSES: TransactionStatus[] = ['confirmed', 'failed', 'replaced', 'cancelled']
+
+export const isTransactionSettled = (record: TransactionState): boolean =>
+  FINAL_STATUSES.includes(record.status)
+
+const loadRecords = (): TransactionState[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+let records: TransactionState[] = loadRecords()
+const listeners = new Set<() => void>()
+// Hash -> wait in progress, so a resumed wait never runs twice
+const watching = new Map<string, Promise<ethers.TransactionReceipt | null>>()
+
+// Only settled records are pruned, so transactions still in flight keep being followed
+const setRecords = (next: TransactionState[]) => {
+  let settled = 0
+  records = next.filter((record) => !isTransactionSettled(record) || ++settled <= TRANSACTION_CONFIG.MAX_RECORDS)
+  localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(records))
+  listeners.forEach((listener) => listener())
+}
+
+const updateRecord = (hash: string, patch: Partial<TransactionState>) => {
+  setRecords(records.map((record) => (record.hash === hash ? { ...record, ...patch } : record)))
+}
+
+// Newest first; stable between updates, suitable for useSyncExternalStore
+export const getTransactions = (): TransactionState[] => records
+
+export const subscribeToTransactions = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const clearSettledTransactions = () => {
+  setRecords(records.filter((record) => !isTransactionSettled(record)))
+}
+
+const getWatchProvider = (chainId: number): ethers.JsonRpcApiProvider => {
+  const network = getNetworkConfig(chainId)
+  if (!network) throw new Error(`Unsupported network ${chainId}`)
+  return getReadOnlyProvider(network)
+}
+
+// Rebuild a response from the stored fields; ethers only needs these to wait and
+// to recognise a replacement
+const restoreResponse = (record: TransactionState, provider: ethers.Provider) =>
+  new ethers.TransactionResponse({
+    blockNumber: null,
+    blockHash: null,
+    hash: record.hash,
+    index: 0,
+    type: 2,
+    to: record.to,
+    from: record.from,
+    nonce: record.nonce,
+    gasLimit: 0n,
+    gasPrice: 0n,
+    maxPriorityFeePerGas: null,
+    maxFeePerGas: null,
+    data: record.data,
+    value: BigInt(record.value),
+    chainId: BigInt(record.chainId),
+    signature: ethers.Signature.from(),
+    accessList: null,
+    authorizationList: null,
+  }, provider).replaceableTransaction(record.startBlock)
+
+// Wait for `confirms` blocks, as provider.waitForTransaction does, while scanning for a
+// transaction that took the same nonce; resolves with the receipt, or null once the record is final
+const waitFor = async (record: TransactionState, confirms: number): Promise<ethers.TransactionReceipt | null> => {
+  const provider = getWatchProvider(record.chainId)
+
+  try {
+    const receipt = await restoreResponse(record, provider).wait(confirms)
+    if (receipt) {
+      updateRecord(record.hash, { status: confirms > 1 ? 'confirmed' : 'mined', blockNumber: receipt.blockNumber })
+    }
+    return receipt
+  } catch (error: any) {
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      // A sped-up copy (same call, higher fee) still carries out the action
+      if (error.reason === 'repriced') {
+        const succeeded = error.receipt.status === 1
+        updateRecord(record.hash, {
+          status: succeeded ? (confirms > 1 ? 'confirmed' : 'mined') : 'failed',
+          replacedBy: error.hash,
+          blockNumber: error.receipt.blockNumber,
+        })
+        return succeeded ? error.receipt : null
+      }
+      updateRecord(record.hash, { status: error.reason === 'cancelled' ? 'cancelled' : 'replaced', replacedBy: error.hash })
+      return null
+    }
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      updateRecord(record.hash, {
+        status: 'failed',
+        blockNumber: error.receipt?.blockNumber,
+        error: 'Transaction reverted',
+      })
+      return null
+    }
+    throw error
+  }
+}
+
+// Follow a record until it is mined, then keep following it to TIME_CONSTANTS.CONFIRMATION_BLOCKS
+const watch = (record: TransactionState): Promise<ethers.TransactionReceipt | null> => {
+  let pending = watching.get(record.hash)
+  if (pending) return pending
+
+  pending = waitFor(record, 1).then((receipt) => {
+    if (receipt) {
+      waitFor(record, TIME_CONSTANTS.CONFIRMATION_BLOCKS)
+        .catch((error) => console.warn(`Could not confirm transaction ${record.hash}:`, error))
+        .finally(() => watching.delete(record.hash))
+    } else {
+      watching.delete(record.hash)
+    }
+    return receipt
+  })
+
+  watching.set(record.hash, pending)
+  pending.catch((error) => {
+    watching.delete(record.hash)
+    updateRecord(record.hash, { error: error.message })
+  })
+  return pending
+}
+
+// Head block to start replacement scans from; read before sending
+export const getStartBlock = async (chainId: number): Promise<number> => {
+  try {
+    return await getWatchProvider(chainId).getBlockNumber()
+  } catch {
+    return 0
+  }
+}
+
+// Record a just-sent transaction and resolve with its receipt once mined,
+// or null when it reverts or is replaced
+export const trackTransaction = (
+  tx: ethers.TransactionResponse,
+  meta: TransactionMeta,
+  startBlock: number
+): Promise<ethers.TransactionReceipt | null> => {
+  const record: TransactionState = {
+    hash: tx.hash,
+    kind: meta.kind,
+    description: meta.description,
+    proposalId: meta.proposalId ?? null,
+    chainId: Number(tx.chainId),
+    from: tx.from,
+    nonce: tx.nonce,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value.toString(),
+    startBlock,
+    status: 'pending',
+    submittedAt: Date.now(),
+  }
+  setRecords([record, ...records.filter((r) => r.hash !== record.hash)])
+  return watch(record)
+}
+
+// Follow a transaction sent earlier, e.g. one a closed page was waiting on; resolves like
+// trackTransaction. A pruned record had already settled, so only its receipt is looked up,
+// resolving null if none arrives within TRANSACTION_CONFIG.RESUME_TIMEOUT_MS.
+export const resumeTransaction = async (chainId: number, hash: string): Promise<ethers.TransactionReceipt | null> => {
+  const record = records.find((r) => r.hash === hash)
+  if (record) return watch(record)
+
+  try {
+    const receipt = await getWatchProvider(chainId).waitForTransaction(hash, 1, TRANSACTION_CONFIG.RESUME_TIMEOUT_MS)
+    return receipt?.status === 1 ? receipt : null
+  } catch (error) {
+    if (ethers.isError(error, 'TIMEOUT')) return null
+    throw error
+  }
+}
+
+// Pick up transactions that were still in flight when the page was last closed
+export const resumeTransactions = () => {
+  records
+    .filter((record) => !isTransactionSettled(record))
+    .forEach((record) => {
+      watch(record).catch((error) => console.warn(`Could not resume transaction ${record.hash}:`, error))
+    })
+}
\ No newline at end of file
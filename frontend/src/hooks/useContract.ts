@@ -1,324 +1,404 @@
-import { useState, useEffect, useCallback } from 'react'
-import { ethers } from 'ethers'
-import { useWeb3 } from '@/providers/Web3Provider'
-import toast from 'react-hot-toast'
-
-export interface OnChainProposal {
-  id: number
-  proposalType: number
-  title: string
-  description: string
-  proposer: string
-  deadline: number
-  startTime: number
-  active: boolean
-  executed: boolean
-  forVotes: number
-  againstVotes: number
-}
-
-export interface ContractState {
-  isInitialized: boolean
-  companyName: string
-  totalShares: number
-  totalProposals: number
-}
-
-export const useContract = () => {
-  const { wallet, contract } = useWeb3()
-  const [contractState, setContractState] = useState<ContractState>({
-    isInitialized: false,
-    companyName: '',
-    totalShares: 0,
-    totalProposals: 0
-  })
-  const [proposals, setProposals] = useState<OnChainProposal[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  // Load contract state
-  const loadContractState = useCallback(async () => {
-    if (!contract.contract) return
-
-    try {
-      setLoading(true)
-      setError(null)
-
-      const [initialized, name, shares, totalProposals] = await Promise.all([
-        contract.contract.initialized().catch(() => false),
-        contract.contract.companyName().catch(() => 'CorporateDAO'),
-        contract.contract.totalShares().catch(() => ethers.getBigInt(0)),
-        contract.contract.getTotalProposals().catch(() => ethers.getBigInt(0))
-      ])
-
-      setContractState({
-        isInitialized: initialized,
-        companyName: name,
-        totalShares: Number(shares),
-        totalProposals: Number(totalProposals)
-      })
-
-    } catch (error: any) {
-      console.error('Error loading contract state:', error)
-      setError(`Failed to load contract state: ${error.message}`)
-    } finally {
-      setLoading(false)
-    }
-  }, [contract.contract])
-
-  // Load all proposals
-  const loadProposals = useCallback(async () => {
-    if (!contract.contract || contractState.totalProposals === 0) return
-
-    try {
-      setLoading(true)
-      const proposalPromises = []
-
-      for (let i = 1; i <= contractState.totalProposals; i++) {
-        proposalPromises.push(loadSingleProposal(i))
-      }
-
-      const loadedProposals = await Promise.all(proposalPromises)
-      const validProposals = loadedProposals.filter(p => p !== null) as OnChainProposal[]
-      
-      setProposals(validProposals)
-    } catch (error: any) {
-      console.error('Error loading proposals:', error)
-      setError(`Failed to load proposals: ${error.message}`)
-    } finally {
-      setLoading(false)
-    }
-  }, [contract.contract, contractState.totalProposals])
-
-  // Load single proposal
-  const loadSingleProposal = useCallback(async (id: number): Promise<OnChainProposal | null> => {
-    if (!contract.contract) return null
-
-    try {
-      // Get proposal info
-      const [startTime, proposalType, title, description, proposer, deadline, , active, executed, forVotes, againstVotes] = 
-        await contract.contract.getProposalInfo(id)
-
-      return {
-        id,
-        proposalType: proposalType,
-        title: title || `Proposal ${id}`,
-        description: description || `Description for proposal ${id}`,
-        proposer,
-        deadline: Number(deadline),
-        startTime: Number(startTime),
-        active,
-        executed,
-        forVotes: Number(forVotes),
-        againstVotes: Number(againstVotes)
-      }
-    } catch (error) {
-      console.error(`Error loading proposal ${id}:`, error)
-      return null
-    }
-  }, [contract.contract])
-
-  // Cast vote on blockchain
-  const castVote = useCallback(async (proposalId: number, choice: number): Promise<boolean> => {
-    if (!contract.contract || !wallet.account) {
-      toast.error('Please connect your wallet')
-      return false
-    }
-
-    try {
-      // Show loading toast
-      const loadingToastId = toast.loading('Preparing transaction...')
-
-      // Check if user is registered shareholder (optional for testing)
-      try {
-        const [isRegistered] = await contract.contract.getShareholderInfo(wallet.account)
-        if (!isRegistered) {
-          toast.error('You are not a registered shareholder. Please register first or use the registration button.', { id: loadingToastId })
-          return false
-        }
-      } catch (error) {
-        console.warn('Could not verify shareholder status, proceeding with vote anyway for testing')
-        // Continue with vote even if registration check fails (for testing)
-      }
-
-      // Estimate gas - use the contract method directly
-      let gasEstimate: bigint = 200000n
-      try {
-        const estimate = await contract.contract.vote.estimateGas(proposalId, choice)
-        gasEstimate = BigInt(estimate.toString())
-        console.log('Gas estimate:', gasEstimate.toString())
-      } catch (error: any) {
-        console.error('Gas estimation failed:', error)
-        console.log('Using default gas limit:', gasEstimate.toString())
-      }
-
-      // Prepare transaction - add 20% buffer
-      const gasLimit = (gasEstimate * 120n) / 100n
-      
-      toast.loading('Please confirm transaction in MetaMask...', { id: loadingToastId })
-
-      // Send transaction
-      const tx = await contract.contract.vote(proposalId, choice, {
-        gasLimit: gasLimit.toString(),
-        // gasPrice can be estimated by the wallet
-      })
-
-      toast.loading(`Transaction sent: ${tx.hash}`, { id: loadingToastId })
-
-      // Wait for confirmation
-      const receipt = await tx.wait()
-      
-      if (receipt.status === 1) {
-        toast.success(`Vote cast successfully! Block: ${receipt.blockNumber}`, { id: loadingToastId })
-        
-        // Reload proposals to get updated vote counts
-        await loadProposals()
-        
-        return true
-      } else {
-        toast.error('Transaction failed', { id: loadingToastId })
-        return false
-      }
-
-    } catch (error: any) {
-      console.error('Voting error:', error)
-      
-      let errorMessage = 'Transaction failed'
-      
-      if (error.code === 4001) {
-        errorMessage = 'User rejected transaction'
-      } else if (error.code === -32603) {
-        errorMessage = 'Internal JSON-RPC error'
-      } else if (error.reason) {
-        errorMessage = error.reason
-      } else if (error.message) {
-        errorMessage = error.message
-      }
-
-      toast.error(errorMessage)
-      return false
-    }
-  }, [contract.contract, wallet.account, loadProposals])
-
-  // Create new proposal (for board members)
-  const createProposal = useCallback(async (
-    proposalType: number,
-    title: string,
-    durationDays: number = 7
-  ): Promise<boolean> => {
-    if (!contract.contract || !wallet.account) {
-      toast.error('Please connect your wallet')
-      return false
-    }
-
-    try {
-      const loadingToastId = toast.loading('Creating proposal...')
-
-      // Check if user is board member
-      try {
-        const isBoardMember = await contract.contract.isBoardMember(wallet.account)
-        if (!isBoardMember) {
-          toast.error('Only board members can create proposals', { id: loadingToastId })
-          return false
-        }
-      } catch (error) {
-        console.warn('Could not verify board member status')
-      }
-
-      // Estimate gas
-      let gasEstimate: bigint = 300000n
-      try {
-        const estimate = await contract.contract.createProposal.estimateGas(
-          proposalType,
-          title,
-          durationDays
-        )
-        gasEstimate = BigInt(estimate.toString())
-      } catch (error: any) {
-        console.error('Gas estimation failed for createProposal:', error)
-      }
-
-      const gasLimit = (gasEstimate * 120n) / 100n
-
-      toast.loading('Please confirm transaction in MetaMask...', { id: loadingToastId })
-
-      // Send transaction
-      const tx = await contract.contract.createProposal(proposalType, title, durationDays, {
-        gasLimit: gasLimit.toString()
-      })
-
-      toast.loading(`Transaction sent: ${tx.hash}`, { id: loadingToastId })
-
-      const receipt = await tx.wait()
-
-      if (receipt.status === 1) {
-        toast.success(`Proposal created successfully! Block: ${receipt.blockNumber}`, { id: loadingToastId })
-        
-        // Reload contract state and proposals
-        await loadContractState()
-        await loadProposals()
-        
-        return true
-      } else {
-        toast.error('Transaction failed', { id: loadingToastId })
-        return false
-      }
-
-    } catch (error: any) {
-      console.error('Create proposal error:', error)
-      
-      let errorMessage = 'Failed to create proposal'
-      if (error.code === 4001) {
-        errorMessage = 'User rejected transaction'
-      } else if (error.reason) {
-        errorMessage = error.reason
-      }
-
-      toast.error(errorMessage)
-      return false
-    }
-  }, [contract.contract, wallet.account, loadContractState, loadProposals])
-
-  // Check if user has voted on a proposal
-  const hasUserVoted = useCallback(async (): Promise<boolean> => {
-    if (!contract.contract || !wallet.account) return false
-
-    try {
-      // This would require a mapping in the contract to track votes
-      // For now, we'll return false and let the user attempt to vote
-      return false
-    } catch (error) {
-      console.error('Error checking vote status:', error)
-      return false
-    }
-  }, [contract.contract, wallet.account])
-
-  // Load data when contract becomes available
-  useEffect(() => {
-    if (contract.contract && wallet.isConnected) {
-      loadContractState()
-    }
-  }, [contract.contract, wallet.isConnected, loadContractState])
-
-  // Load proposals when contract state is loaded
-  useEffect(() => {
-    if (contractState.totalProposals > 0) {
-      loadProposals()
-    }
-  }, [contractState.totalProposals, loadProposals])
-
-  return {
-    contractState,
-    proposals,
-    loading,
-    error,
-    loadContractState,
-    loadProposals,
-    castVote,
-    createProposal,
-    hasUserVoted,
-    // Helper functions
-    getActiveProposals: () => proposals.filter(p => p.active && !p.executed),
-    getCompletedProposals: () => proposals.filter(p => !p.active || p.executed),
-  }
+import { useCallback } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useWeb3 } from '@/providers/Web3Provider'
+import toast from 'react-hot-toast'
+import { Proposal, Shareholder, VoteChoice } from '@/types/web3'
+import { linkDescription, saveDescription } from '@/utils/descriptionStore'
+import { formatAddress } from '@/utils/web3'
+import { VotedStatus, fetchProposal, useCompanyInfo, useProposals } from '@/hooks/useGovernanceQueries'
+import { governanceKeys } from '@/utils/queryKeys'
+import { runTransaction } from '@/hooks/useTransactions'
+
+interface CastVoteVariables {
+  proposalId: number
+  choice: number
+}
+
+interface CreateProposalVariables {
+  proposalType: number
+  title: string
+  durationDays: number
+  description: string
+}
+
+interface AddShareholderVariables {
+  address: string
+  shares: number
+  name: string
+}
+
+// Cached data replaced by an optimistic vote, restored if the vote does not land
+interface VoteSnapshot {
+  proposal: [readonly unknown[], Proposal | null | undefined]
+  proposals: [readonly unknown[], Proposal[] | undefined]
+  votedStatus: Array<[readonly unknown[], VotedStatus | undefined]>
+}
+
+const EMPTY_CONTRACT_STATE = {
+  isInitialized: false,
+  companyName: '',
+  totalShares: 0,
+  totalProposals: 0
+}
+
+export const useContract = () => {
+  const { wallet, contract } = useWeb3()
+  const queryClient = useQueryClient()
+  const companyQuery = useCompanyInfo()
+  const proposalsQuery = useProposals()
+
+  const chainId = contract.chainId
+  const contractAddress = contract.contract?.address
+  const proposals = proposalsQuery.proposals
+  const loading = companyQuery.isLoading || proposalsQuery.isLoading
+  const error = companyQuery.error
+    ? `Failed to load contract state: ${companyQuery.error.message}`
+    : proposalsQuery.error
+      ? `Failed to load proposals: ${proposalsQuery.error.message}`
+      : null
+
+  // Refetch contract state
+  const loadContractState = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: governanceKeys.company(chainId, contractAddress) })
+  }, [queryClient, chainId, contractAddress])
+
+  // Refetch all proposals
+  const loadProposals = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: governanceKeys.proposals(chainId, contractAddress) })
+  }, [queryClient, chainId, contractAddress])
+
+  // Load single proposal, served from the cache while fresh
+  const loadSingleProposal = useCallback(async (id: number): Promise<Proposal | null> => {
+    const adapter = contract.contract
+    if (!adapter) return null
+
+    return queryClient.fetchQuery({
+      queryKey: governanceKeys.proposal(chainId, contractAddress, id),
+      queryFn: () => fetchProposal(adapter, chainId, id),
+    })
+  }, [queryClient, contract.contract, chainId, contractAddress])
+
+  const fetchShareholder = useCallback(async (account: string): Promise<Shareholder> => {
+    const adapter = contract.contract
+    if (!adapter) throw new Error('Contract not loaded')
+
+    return queryClient.fetchQuery({
+      queryKey: governanceKeys.shareholder(chainId, contractAddress, account),
+      queryFn: () => adapter.getShareholder(account),
+    })
+  }, [queryClient, contract.contract, chainId, contractAddress])
+
+  // Mark the proposal as voted and add the voter's shares to the cached tally
+  const applyOptimisticVote = async (proposalId: number, choice: number): Promise<VoteSnapshot | null> => {
+    const adapter = contract.contract
+    const account = wallet.account
+    if (!adapter || !account) return null
+
+    const proposalKey = governanceKeys.proposal(chainId, contractAddress, proposalId)
+    const proposalsKey = governanceKeys.proposals(chainId, contractAddress)
+    const votedKey = governanceKeys.votedStatus(chainId, contractAddress, account)
+    await Promise.all([proposalKey, proposalsKey, votedKey].map(queryKey => queryClient.cancelQueries({ queryKey })))
+
+    const snapshot: VoteSnapshot = {
+      proposal: [proposalKey, queryClient.getQueryData<Proposal | null>(proposalKey)],
+      proposals: [proposalsKey, queryClient.getQueryData<Proposal[]>(proposalsKey)],
+      votedStatus: queryClient.getQueriesData<VotedStatus>({ queryKey: votedKey }),
+    }
+
+    queryClient.setQueriesData<VotedStatus>({ queryKey: votedKey }, status => status && { ...status, [proposalId]: true })
+
+    // Tallies are only readable during voting when the contract keeps them in the clear
+    if (adapter.capabilities.liveTallies && choice !== VoteChoice.ABSTAIN) {
+      const weight = await fetchShareholder(account).then(s => s.shares, () => 0)
+      const addVote = (p: Proposal): Proposal => choice === VoteChoice.FOR
+        ? { ...p, forVotes: p.forVotes + weight }
+        : { ...p, againstVotes: p.againstVotes + weight }
+
+      if (weight > 0) {
+        queryClient.setQueryData<Proposal | null>(proposalKey, p => p && addVote(p))
+        queryClient.setQueryData<Proposal[]>(proposalsKey, list => list?.map(p => p.id === proposalId ? addVote(p) : p))
+      }
+    }
+
+    return snapshot
+  }
+
+  const restoreSnapshot = (snapshot: VoteSnapshot) => {
+    for (const [queryKey, data] of [snapshot.proposal, snapshot.proposals, ...snapshot.votedStatus]) {
+      queryClient.setQueryData(queryKey, data)
+    }
+  }
+
+  // Cast vote on blockchain
+  const castVoteMutation = useMutation({
+    mutationFn: async ({ proposalId, choice }: CastVoteVariables): Promise<boolean> => {
+      const adapter = contract.contract
+      if (!adapter || contract.readOnly || !wallet.account || chainId === null) {
+        toast.error('Please connect your wallet')
+        return false
+      }
+
+      const loadingToastId = toast.loading('Preparing transaction...')
+
+      // Check if user is registered shareholder (optional for testing)
+      try {
+        const shareholder = await fetchShareholder(wallet.account)
+        if (!shareholder.active) {
+          toast.error('You are not a registered shareholder. Please register first or use the registration button.', { id: loadingToastId })
+          return false
+        }
+      } catch (error) {
+        console.warn('Could not verify shareholder status, proceeding with vote anyway for testing')
+        // Continue with vote even if registration check fails (for testing)
+      }
+
+      const receipt = await runTransaction({
+        kind: 'vote',
+        description: `Vote on proposal #${proposalId}`,
+        proposalId,
+        chainId,
+        preflight: () => adapter.staticCall.castVote(proposalId, choice),
+        contractInterface: adapter.contract.interface,
+        estimateGas: () => adapter.estimateGas.castVote(proposalId, choice),
+        defaultGasLimit: 200000n,
+        send: (overrides) => adapter.castVote(proposalId, choice, overrides),
+        successMessage: 'Vote cast successfully!',
+        toastId: loadingToastId,
+      })
+      return receipt !== null
+    },
+    onMutate: ({ proposalId, choice }) => applyOptimisticVote(proposalId, choice),
+    onSettled: async (succeeded, _error, { proposalId }, snapshot) => {
+      if (!succeeded && snapshot) restoreSnapshot(snapshot)
+      // Replace the optimistic tally with the chain's
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposal(chainId, contractAddress, proposalId) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposals(chainId, contractAddress) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.votedStatus(chainId, contractAddress, wallet.account) }),
+      ])
+    },
+  })
+
+  // Create new proposal (for board members); resolves to the new proposal ID
+  const createProposalMutation = useMutation({
+    mutationFn: async ({ proposalType, title, durationDays, description }: CreateProposalVariables): Promise<number | null> => {
+      const adapter = contract.contract
+      if (!adapter || contract.readOnly || !wallet.account || chainId === null) {
+        toast.error('Please connect your wallet')
+        return null
+      }
+
+      const loadingToastId = toast.loading('Creating proposal...')
+
+      // Check if user is board member
+      try {
+        const isBoardMember = await adapter.isBoardMember(wallet.account)
+        if (!isBoardMember) {
+          toast.error('Only board members can create proposals', { id: loadingToastId })
+          return null
+        }
+      } catch (error) {
+        console.warn('Could not verify board member status')
+      }
+
+      // Keep the description off-chain, addressed by its hash
+      let attachmentHash: string | undefined
+      if (description) {
+        try {
+          attachmentHash = await saveDescription(description)
+        } catch (error) {
+          console.warn('Could not store proposal description locally:', error)
+        }
+      }
+
+      const params = { proposalType, title, description, durationDays, attachmentHash }
+      const receipt = await runTransaction({
+        kind: 'createProposal',
+        description: `Create "${title}"`,
+        chainId,
+        preflight: () => adapter.staticCall.createProposal(params),
+        contractInterface: adapter.contract.interface,
+        estimateGas: () => adapter.estimateGas.createProposal(params),
+        defaultGasLimit: 300000n,
+        send: (overrides) => adapter.createProposal(params, overrides),
+        successMessage: 'Proposal created successfully!',
+        errorMessage: 'Failed to create proposal',
+        toastId: loadingToastId,
+      })
+      if (!receipt) return null
+
+      // Read the new proposal ID from the ProposalAdd event
+      const created = receipt.logs
+        .map((log) => adapter.decodeLog(log))
+        .find((event) => event?.name === 'ProposalAdd')
+      const proposalId = created?.name === 'ProposalAdd' ? created.proposalId : null
+
+      if (proposalId !== null && attachmentHash) {
+        try {
+          await linkDescription(chainId, adapter.address, proposalId, attachmentHash)
+        } catch (error) {
+          console.warn('Could not link proposal description:', error)
+        }
+      }
+
+      return proposalId
+    },
+    onSuccess: async (proposalId) => {
+      if (proposalId === null) return
+      // The proposal count and list change; the new ID may have been read as missing before
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: governanceKeys.company(chainId, contractAddress) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposals(chainId, contractAddress) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposal(chainId, contractAddress, proposalId) }),
+      ])
+    },
+  })
+
+  // Register or update a shareholder (for board members)
+  const addShareholderMutation = useMutation({
+    mutationFn: async ({ address, shares, name }: AddShareholderVariables): Promise<boolean> => {
+      const adapter = contract.contract
+      if (!adapter || contract.readOnly || !wallet.account || chainId === null) {
+        toast.error('Please connect your wallet')
+        return false
+      }
+
+      const loadingToastId = toast.loading('Registering shareholder...')
+
+      // Check if user is board member
+      try {
+        const isBoardMember = await adapter.isBoardMember(wallet.account)
+        if (!isBoardMember) {
+          toast.error('Only board members can register shareholders', { id: loadingToastId })
+          return false
+        }
+      } catch (error) {
+        console.warn('Could not verify board member status')
+      }
+
+      const receipt = await runTransaction({
+        kind: 'addShareholder',
+        description: `Register ${name || formatAddress(address)}`,
+        chainId,
+        preflight: () => adapter.staticCall.addShareholder(address, shares, name),
+        contractInterface: adapter.contract.interface,
+        send: () => adapter.addShareholder(address, shares, name),
+        successMessage: 'Shareholder saved!',
+        errorMessage: 'Failed to register shareholder',
+        toastId: loadingToastId,
+      })
+      return receipt !== null
+    },
+    onSuccess: async (succeeded, variables) => {
+      if (!succeeded) return
+      // Registered share totals change with the shareholder's entry
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: governanceKeys.shareholder(chainId, contractAddress, variables.address) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.roles(chainId, contractAddress, variables.address) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.company(chainId, contractAddress) }),
+      ])
+    },
+  })
+
+  // Close voting on an expired proposal (board only)
+  const finalizeProposalMutation = useMutation({
+    mutationFn: async (proposalId: number): Promise<boolean> => {
+      const adapter = contract.contract
+      if (!adapter || contract.readOnly || !wallet.account || chainId === null) {
+        toast.error('Please connect your wallet')
+        return false
+      }
+
+      const loadingToastId = toast.loading('Finalizing proposal...')
+
+      try {
+        const isBoardMember = await adapter.isBoardMember(wallet.account)
+        if (!isBoardMember) {
+          toast.error('Only board members can finalize proposals', { id: loadingToastId })
+          return false
+        }
+      } catch (error) {
+        console.warn('Could not verify board member status')
+      }
+
+      const receipt = await runTransaction({
+        kind: 'finalizeProposal',
+        description: `Finalize proposal #${proposalId}`,
+        proposalId,
+        chainId,
+        preflight: () => adapter.staticCall.finalizeProposal(proposalId),
+        contractInterface: adapter.contract.interface,
+        estimateGas: () => adapter.estimateGas.finalizeProposal(proposalId),
+        send: (overrides) => adapter.finalizeProposal(proposalId, overrides),
+        successMessage: `Proposal #${proposalId} finalized!`,
+        errorMessage: 'Failed to finalize proposal',
+        toastId: loadingToastId,
+      })
+      return receipt !== null
+    },
+    onSuccess: async (succeeded, proposalId) => {
+      if (!succeeded) return
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposal(chainId, contractAddress, proposalId) }),
+        queryClient.invalidateQueries({ queryKey: governanceKeys.proposals(chainId, contractAddress) }),
+      ])
+    },
+  })
+
+  // Check if user has voted on a proposal
+  const hasUserVoted = useCallback(async (proposalId: number): Promise<boolean> => {
+    if (!contract.contract || !wallet.account) return false
+
+    try {
+      return await contract.contract.hasVotedOn(proposalId, wallet.account)
+    } catch (error) {
+      console.error('Error checking vote status:', error)
+      return false
+    }
+  }, [contract.contract, wallet.account])
+
+  // Refetch the connected account's voted status
+  const loadVotedStatus = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: governanceKeys.votedStatus(chainId, contractAddress, wallet.account) })
+  }, [queryClient, chainId, contractAddress, wallet.account])
+
+  const { mutateAsync: castVoteAsync } = castVoteMutation
+  const castVote = useCallback(
+    (proposalId: number, choice: number) => castVoteAsync({ proposalId, choice }),
+    [castVoteAsync]
+  )
+
+  const { mutateAsync: createProposalAsync } = createProposalMutation
+  const createProposal = useCallback(
+    (proposalType: number, title: string, durationDays: number = 7, description: string = '') =>
+      createProposalAsync({ proposalType, title, durationDays, description }),
+    [createProposalAsync]
+  )
+
+  const { mutateAsync: addShareholderAsync } = addShareholderMutation
+  const addShareholder = useCallback(
+    (address: string, shares: number, name: string) => addShareholderAsync({ address, shares, name }),
+    [addShareholderAsync]
+  )
+
+  const finalizeProposal = finalizeProposalMutation.mutateAsync
+
+  return {
+    contractState: companyQuery.data ?? EMPTY_CONTRACT_STATE,
+    proposals,
+    loading,
+    error,
+    loadContractState,
+    loadProposals,
+    loadSingleProposal,
+    castVote,
+    createProposal,
+    addShareholder,
+    finalizeProposal,
+    hasUserVoted,
+    loadVotedStatus,
+    // Helper functions
+    getActiveProposals: () => proposals.filter(p => p.active && !p.executed),
+    getCompletedProposals: () => proposals.filter(p => !p.active || p.executed),
+  }
 }
\ No newline at end of file
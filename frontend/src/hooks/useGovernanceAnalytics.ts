@@ -0,0 +1,78 @@
+import { useMemo } from 'react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { useCompanyInfo, useProposals } from '@/hooks/useGovernanceQueries'
+import { useGovernanceIndex } from '@/hooks/useGovernanceIndex'
+import { useProposalResults } from '@/hooks/useProposalResults'
+import { Proposal } from '@/types/web3'
+import { isPassing, resolveThreshold } from '@/utils/governanceRules'
+import { getChainTime } from '@/utils/web3'
+import {
+  ALL_TIME,
+  DateRange,
+  filterProposalsByRange,
+  getAverageTurnout,
+  getOpeningTimes,
+  getPassRateByType,
+  getShareholderEngagement,
+  getTimeToQuorum,
+  getTurnoutByProposal,
+} from '@/utils/governanceAnalytics'
+import { ANALYTICS_CONFIG } from '@/utils/constants'
+
+// Aggregates over the proposals that opened within the range
+export const useGovernanceAnalytics = (range: DateRange = ALL_TIME) => {
+  const { contract } = useWeb3()
+  const { data: company } = useCompanyInfo()
+  const { proposals: allProposals, isLoading } = useProposals()
+  const { proposals: createdEvents, votes, shareholders, status: indexStatus } = useGovernanceIndex()
+  const { getRecord } = useProposalResults()
+
+  const variant = contract.contract?.variant
+  const liveTallies = contract.contract?.capabilities.liveTallies ?? false
+
+  const analytics = useMemo(() => {
+    const now = getChainTime()
+    const openingTimes = getOpeningTimes(allProposals, createdEvents)
+    const proposals = filterProposalsByRange(allProposals, range, openingTimes)
+    const ids = new Set(proposals.map((p) => p.id))
+    const rangeVotes = votes.filter((vote) => ids.has(vote.proposalId))
+    const registeredWeight = shareholders.reduce((total, s) => total + s.shares, 0)
+
+    // Recorded results first; live tallies only where the contract exposes them
+    const resolveOutcome = (p: Proposal): boolean | null => {
+      if (p.active && p.deadline > now) return null
+      const record = getRecord(p.id)
+      if (record) return record.passed
+      return liveTallies ? isPassing(p, resolveThreshold(p, variant)) : null
+    }
+
+    const turnout = getTurnoutByProposal(proposals, rangeVotes, registeredWeight, openingTimes)
+    const passRates = getPassRateByType(proposals, resolveOutcome)
+    const decided = passRates.reduce((total, rate) => total + rate.decided, 0)
+    const passed = passRates.reduce((total, rate) => total + rate.passed, 0)
+
+    return {
+      proposals,
+      registeredWeight,
+      turnout,
+      averageTurnout: getAverageTurnout(turnout),
+      passRates,
+      decided,
+      passed,
+      passRate: decided > 0 ? (passed / decided) * 100 : 0,
+      activeCount: proposals.filter((p) => p.active && p.deadline > now).length,
+      timeToQuorum: getTimeToQuorum(
+        proposals, rangeVotes, registeredWeight, ANALYTICS_CONFIG.QUORUM_PERCENT, openingTimes
+      ),
+      engagement: getShareholderEngagement(shareholders, proposals, rangeVotes),
+    }
+  }, [allProposals, createdEvents, range, votes, shareholders, getRecord, liveTallies, variant])
+
+  return {
+    ...analytics,
+    company,
+    shareholderCount: shareholders.length,
+    isLoading,
+    indexStatus,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { useWeb3 } from '@/providers/Web3Provider'
+import {
+  EMPTY_INDEX_SNAPSHOT,
+  getGovernanceIndexer,
+} from '@/indexer/governanceIndexer'
+import { VoteCastEvent } from '@/types/web3'
+
+const noopSubscribe = () => () => {}
+
+export const useGovernanceIndex = () => {
+  const { contract } = useWeb3()
+
+  const indexer = useMemo(() => {
+    if (!contract.contract?.runner.provider) return null
+    return getGovernanceIndexer(contract.contract)
+  }, [contract.contract])
+
+  // Follow new blocks while at least one component is mounted
+  useEffect(() => indexer?.retain(), [indexer])
+
+  const snapshot = useSyncExternalStore(
+    indexer ? indexer.subscribe : noopSubscribe,
+    () => (indexer ? indexer.getSnapshot() : EMPTY_INDEX_SNAPSHOT)
+  )
+
+  const votesByProposal = useMemo(() => {
+    const grouped = new Map<number, VoteCastEvent[]>()
+    snapshot.votes.forEach((vote) => {
+      const votes = grouped.get(vote.proposalId) ?? []
+      votes.push(vote)
+      grouped.set(vote.proposalId, votes)
+    })
+    return grouped
+  }, [snapshot.votes])
+
+  const getProposalVotes = useCallback(
+    (proposalId: number) => votesByProposal.get(proposalId) ?? [],
+    [votesByProposal]
+  )
+
+  const getVoterHistory = useCallback(
+    (voter: string) =>
+      snapshot.votes.filter((vote) => vote.voter.toLowerCase() === voter.toLowerCase()),
+    [snapshot.votes]
+  )
+
+  const refresh = useCallback(async () => {
+    await indexer?.sync()
+  }, [indexer])
+
+  return {
+    ...snapshot,
+    getProposalVotes,
+    getVoterHistory,
+    refresh,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { GovernanceAdapter } from '@/contracts/adapters'
+import { Proposal, Shareholder } from '@/types/web3'
+import { getLinkedDescription } from '@/utils/descriptionStore'
+import { governanceKeys } from '@/utils/queryKeys'
+
+export interface CompanyState {
+  isInitialized: boolean
+  companyName: string
+  totalShares: number
+  totalProposals: number
+}
+
+// Proposal ID -> whether the account has voted on it
+export type VotedStatus = Record<number, boolean>
+
+// hasVotedOn calls issued at once when loading an account's voted status
+const VOTED_STATUS_BATCH_SIZE = 20
+
+export const fetchCompanyState = async (adapter: GovernanceAdapter): Promise<CompanyState> => {
+  const [initialized, companyInfo, totalProposals] = await Promise.all([
+    adapter.isInitialized().catch(() => false),
+    adapter.getCompanyInfo().catch(() => null),
+    adapter.getTotalProposals().catch(() => 0)
+  ])
+
+  return {
+    isInitialized: initialized,
+    companyName: companyInfo?.name || 'CorporateDAO',
+    totalShares: companyInfo?.totalShares ?? 0,
+    totalProposals
+  }
+}
+
+export const fetchProposal = async (
+  adapter: GovernanceAdapter,
+  chainId: number | null,
+  id: number
+): Promise<Proposal | null> => {
+  try {
+    // Get normalized proposal from the variant adapter
+    const proposal = await adapter.getProposal(id)
+
+    // Fall back to the description stored off-chain when the contract keeps none
+    const description = proposal.description
+      || (chainId !== null ? await getLinkedDescription(chainId, adapter.address, id) : null)
+      || ''
+
+    return {
+      ...proposal,
+      id,
+      title: proposal.title || `Proposal ${id}`,
+      description
+    }
+  } catch (error) {
+    console.error(`Error loading proposal ${id}:`, error)
+    return null
+  }
+}
+
+export const fetchProposals = async (adapter: GovernanceAdapter, chainId: number | null): Promise<Proposal[]> => {
+  const total = await adapter.getTotalProposals()
+  const ids = Array.from({ length: total }, (_, i) => i + 1)
+  const loaded = await Promise.all(ids.map(id => fetchProposal(adapter, chainId, id)))
+  return loaded.filter((p): p is Proposal => p !== null)
+}
+
+// Check every proposal for one account in batches
+export const fetchVotedStatus = async (
+  adapter: GovernanceAdapter,
+  account: string,
+  totalProposals: number
+): Promise<VotedStatus> => {
+  const ids = Array.from({ length: totalProposals }, (_, i) => i + 1)
+  const status: VotedStatus = {}
+
+  for (let i = 0; i < ids.length; i += VOTED_STATUS_BATCH_SIZE) {
+    const batch = ids.slice(i, i + VOTED_STATUS_BATCH_SIZE)
+    const results = await Promise.all(
+      batch.map(id => adapter.hasVotedOn(id, account).catch(() => false))
+    )
+    batch.forEach((id, index) => { status[id] = results[index] })
+  }
+
+  return status
+}
+
+// The adapter and the deployment identity the query keys are built from
+export const useGovernanceScope = () => {
+  const { wallet, contract } = useWeb3()
+  return {
+    adapter: contract.contract,
+    chainId: contract.chainId,
+    address: contract.contract?.address,
+    account: wallet.account,
+  }
+}
+
+export const useCompanyInfo = () => {
+  const { adapter, chainId, address } = useGovernanceScope()
+
+  return useQuery({
+    queryKey: governanceKeys.company(chainId, address),
+    queryFn: () => fetchCompanyState(adapter!),
+    enabled: !!adapter,
+  })
+}
+
+export const useVotedStatus = () => {
+  const { adapter, chainId, address, account } = useGovernanceScope()
+  const { data: company } = useCompanyInfo()
+  const totalProposals = company?.totalProposals ?? 0
+
+  return useQuery({
+    queryKey: [...governanceKeys.votedStatus(chainId, address, account), totalProposals] as const,
+    queryFn: () => fetchVotedStatus(adapter!, account!, totalProposals),
+    enabled: !!adapter && !!account && totalProposals > 0,
+  })
+}
+
+// All proposals with the connected account's voted status filled in
+export const useProposals = () => {
+  const { adapter, chainId, address } = useGovernanceScope()
+  const query = useQuery({
+    queryKey: governanceKeys.proposals(chainId, address),
+    queryFn: () => fetchProposals(adapter!, chainId),
+    enabled: !!adapter,
+  })
+  const { data: votedStatus } = useVotedStatus()
+
+  const proposals = useMemo(
+    () => (query.data ?? []).map(p => ({ ...p, hasVoted: votedStatus?.[p.id] ?? false })),
+    [query.data, votedStatus]
+  )
+
+  return { ...query, proposals }
+}
+
+export const useProposal = (id: number) => {
+  const queryClient = useQueryClient()
+  const { adapter, chainId, address } = useGovernanceScope()
+  const { data: votedStatus } = useVotedStatus()
+  const isValidId = Number.isInteger(id) && id > 0
+
+  const query = useQuery({
+    queryKey: governanceKeys.proposal(chainId, address, id),
+    queryFn: () => fetchProposal(adapter!, chainId, id),
+    enabled: !!adapter && isValidId,
+    // Show the copy from the proposal list while the single read is in flight
+    placeholderData: () => queryClient
+      .getQueryData<Proposal[]>(governanceKeys.proposals(chainId, address))
+      ?.find(p => p.id === id),
+  })
+
+  const proposal = useMemo(
+    () => query.data ? { ...query.data, hasVoted: votedStatus?.[id] ?? false } : null,
+    [query.data, votedStatus, id]
+  )
+
+  return { ...query, proposal }
+}
+
+export const useShareholder = (shareholder: string | null) => {
+  const { adapter, chainId, address } = useGovernanceScope()
+
+  return useQuery<Shareholder>({
+    queryKey: governanceKeys.shareholder(chainId, address, shareholder),
+    queryFn: () => adapter!.getShareholder(shareholder!),
+    enabled: !!adapter && !!shareholder,
+  })
+}
\ No newline at end of file
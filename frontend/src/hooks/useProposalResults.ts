@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { useWeb3 } from '@/providers/Web3Provider'
+import { governanceKeys } from '@/utils/queryKeys'
+import { getStartBlock, trackTransaction } from '@/contracts/transactionManager'
+import { normalizeError } from '@/contracts/errors'
+import { Proposal, Web3ErrorCode } from '@/types/web3'
+import { ProposalResultRecord, getResultRecords, saveResultRecord } from '@/utils/resultStore'
+import { getChainTime } from '@/utils/web3'
+
+export interface FinalizeProgress {
+  current: number
+  total: number
+}
+
+// Active proposals whose voting period has ended but that nobody has finalized yet
+export const isAwaitingFinalization = (proposal: Proposal, now: number = getChainTime()) =>
+  proposal.active && !proposal.executed && proposal.deadline < now
+
+export const useProposalResults = () => {
+  const { wallet, contract } = useWeb3()
+  const queryClient = useQueryClient()
+  const [records, setRecords] = useState<Map<number, ProposalResultRecord>>(new Map())
+  const [progress, setProgress] = useState<FinalizeProgress | null>(null)
+
+  const adapter = contract.contract
+  const chainId = contract.chainId
+
+  useEffect(() => {
+    if (!adapter || chainId === null) {
+      setRecords(new Map())
+      return
+    }
+
+    let cancelled = false
+    getResultRecords(chainId, adapter.address)
+      .then((stored) => {
+        if (!cancelled) setRecords(new Map(stored.map((record) => [record.proposalId, record])))
+      })
+      .catch((error) => console.warn('Could not read recorded results:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [adapter, chainId])
+
+  // Read getResults (board only) and keep a permanent record of the outcome
+  const fetchResults = useCallback(async (proposal: Proposal): Promise<ProposalResultRecord | null> => {
+    if (!adapter || chainId === null) return null
+
+    try {
+      const results = await adapter.getResults(proposal.id)
+      const record: ProposalResultRecord = {
+        ...results,
+        chainId,
+        contractAddress: adapter.address.toLowerCase(),
+        proposalType: proposal.proposalType,
+        threshold: proposal.threshold,
+        recordedAt: Date.now(),
+      }
+      await saveResultRecord(record)
+      setRecords((current) => new Map(current).set(proposal.id, record))
+      return record
+    } catch (error) {
+      console.warn(`Results for proposal ${proposal.id} are not readable:`, error)
+      return null
+    }
+  }, [adapter, chainId])
+
+  // Finalize each proposal in turn, then record its results
+  const finalizeAll = useCallback(async (proposals: Proposal[]): Promise<number> => {
+    if (!adapter || chainId === null || contract.readOnly || !wallet.account) {
+      toast.error('Please connect your wallet')
+      return 0
+    }
+    if (proposals.length === 0) return 0
+
+    const toastId = toast.loading(`Finalizing ${proposals.length} proposals...`)
+    let finalized = 0
+
+    try {
+      for (const [index, proposal] of proposals.entries()) {
+        setProgress({ current: index + 1, total: proposals.length })
+        toast.loading(`Finalizing proposal #${proposal.id} (${index + 1} of ${proposals.length})...`, { id: toastId })
+
+        try {
+          await adapter.staticCall.finalizeProposal(proposal.id)
+          const startBlock = await getStartBlock(chainId)
+          const tx = await adapter.finalizeProposal(proposal.id)
+          const receipt = await trackTransaction(tx, {
+            kind: 'finalizeProposal',
+            description: `Finalize proposal #${proposal.id}`,
+            proposalId: proposal.id,
+          }, startBlock)
+          if (!receipt) {
+            console.error(`Finalizing proposal ${proposal.id} failed`)
+            continue
+          }
+          finalized++
+          await queryClient.invalidateQueries({ queryKey: governanceKeys.proposal(chainId, adapter.address, proposal.id) })
+          await fetchResults({ ...proposal, active: false, executed: true })
+        } catch (error) {
+          const web3Error = normalizeError(error, adapter.contract.interface)
+          if (web3Error.code === Web3ErrorCode.USER_REJECTED) {
+            toast.error(`Stopped after ${finalized} of ${proposals.length} proposals`, { id: toastId })
+            return finalized
+          }
+          console.error(`Finalizing proposal ${proposal.id} failed: ${web3Error.message}`, error)
+        }
+      }
+
+      if (finalized === proposals.length) {
+        toast.success(`Finalized ${finalized} proposals`, { id: toastId })
+      } else {
+        toast.error(`Finalized ${finalized} of ${proposals.length} proposals`, { id: toastId })
+      }
+      return finalized
+    } finally {
+      setProgress(null)
+      if (finalized > 0) {
+        await queryClient.invalidateQueries({ queryKey: governanceKeys.proposals(chainId, adapter.address) })
+      }
+    }
+  }, [adapter, chainId, contract.readOnly, wallet.account, queryClient, fetchResults])
+
+  const getRecord = useCallback(
+    (proposalId: number) => records.get(proposalId) ?? null,
+    [records]
+  )
+
+  return {
+    records,
+    progress,
+    getRecord,
+    fetchResults,
+    finalizeAll,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { useDemoData } from '@/providers/DemoDataProvider'
+import { useContract } from '@/hooks/useContract'
+import { ProposalSource } from '@/types/web3'
+
+// Proposals and ballots go to the governance contract unless demo mode is on, in which
+// case only the sample proposals are shown and votes stay in memory
+export const useProposalSource = (): ProposalSource => {
+  const { isDemoMode, source: demoSource } = useDemoData()
+  const { getActiveProposals, loadSingleProposal, hasUserVoted, castVote } = useContract()
+
+  if (isDemoMode) return demoSource
+
+  return {
+    isDemo: false,
+    getActiveProposals,
+    loadProposal: loadSingleProposal,
+    hasVoted: hasUserVoted,
+    castVote,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ethers } from 'ethers'
+import toast from 'react-hot-toast'
+import { useWeb3 } from '@/providers/Web3Provider'
+import {
+  ShareholderImportQueue,
+  ShareholderImportRow,
+  clearImportQueue,
+  diffShareholderRow,
+  loadImportQueue,
+  parseShareholderCsv,
+  saveImportQueue,
+} from '@/utils/shareholders'
+import { formatAddress } from '@/utils/web3'
+import { getStartBlock, resumeTransaction, trackTransaction } from '@/contracts/transactionManager'
+import { normalizeError } from '@/contracts/errors'
+import { Web3ErrorCode } from '@/types/web3'
+
+// Number of getShareholderInfo reads issued at once during the dry run
+const READ_CHUNK_SIZE = 10
+
+// How long to wait for a submitted row's receipt before checking the register instead
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000
+
+type ReceiptOutcome = ethers.TransactionReceipt | null | 'paused' | 'timeout'
+
+export const useShareholderImport = () => {
+  const { wallet, contract } = useWeb3()
+  const [queue, setQueue] = useState<ShareholderImportQueue | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const runControllerRef = useRef<AbortController | null>(null)
+
+  const adapter = contract.contract
+  const chainId = contract.chainId
+
+  // Pick up an import left unfinished for this contract
+  useEffect(() => {
+    if (!adapter || chainId === null) {
+      setQueue(null)
+      return
+    }
+    setQueue(loadImportQueue(chainId, adapter.address))
+  }, [adapter, chainId])
+
+  const readRegistration = useCallback(async (address: string) => {
+    if (!adapter) return null
+    const shareholder = await adapter.getShareholder(address)
+    return shareholder.active ? { shares: shareholder.shares, name: shareholder.name } : null
+  }, [adapter])
+
+  // Dry run: parse the CSV and diff every row against the on-chain register
+  const preview = useCallback(async (csv: string) => {
+    if (!adapter || chainId === null) return
+
+    const parsed = parseShareholderCsv(csv)
+    if (parsed.length === 0) {
+      toast.error('The CSV file does not contain any rows')
+      return
+    }
+
+    setIsPreviewing(true)
+    try {
+      const rows: ShareholderImportRow[] = []
+      for (let i = 0; i < parsed.length; i += READ_CHUNK_SIZE) {
+        const chunk = parsed.slice(i, i + READ_CHUNK_SIZE)
+        const current = await Promise.all(
+          chunk.map((row) => (row.error ? null : readRegistration(row.entry.address)))
+        )
+        chunk.forEach((row, index) => {
+          rows.push(diffShareholderRow(row, current[index], adapter.capabilities.updatableShareholders))
+        })
+      }
+
+      const next: ShareholderImportQueue = {
+        chainId,
+        contractAddress: adapter.address,
+        createdAt: Date.now(),
+        rows,
+      }
+      saveImportQueue(next)
+      setQueue(next)
+    } catch (error) {
+      console.error('Error reading the shareholder register:', error)
+      toast.error('Failed to read the current shareholder register')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }, [adapter, chainId, readRegistration])
+
+  // Submit pending rows, sending each as soon as the previous one is submitted; receipts are
+  // awaited alongside and progress is persisted after each step
+  const run = useCallback(async () => {
+    if (!queue || !adapter || contract.readOnly || !wallet.account) {
+      toast.error('Please connect your wallet')
+      return
+    }
+
+    const controller = new AbortController()
+    runControllerRef.current = controller
+    const paused = new Promise<'paused'>((resolve) => {
+      controller.signal.addEventListener('abort', () => resolve('paused'))
+    })
+    setIsRunning(true)
+
+    let rows = queue.rows
+    const update = (index: number, patch: Partial<ShareholderImportRow>) => {
+      rows = rows.map((row, i) => (i === index ? { ...row, ...patch } : row))
+      const next = { ...queue, rows }
+      saveImportQueue(next)
+      setQueue(next)
+    }
+
+    let confirmed = 0
+    let failed = 0
+    let rejected = false
+    const receipts: Promise<void>[] = []
+
+    // Settle a submitted row once its receipt arrives. Pausing abandons the wait and leaves the
+    // row submitted for the next run; a wait that times out is settled from the register.
+    const settle = (index: number, receipt: Promise<ethers.TransactionReceipt | null>) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const timedOut = new Promise<'timeout'>((resolve) => {
+        timer = setTimeout(() => resolve('timeout'), RECEIPT_TIMEOUT_MS)
+      })
+
+      receipts.push((async () => {
+        const row = rows[index]
+        try {
+          const outcome: ReceiptOutcome = await Promise.race([receipt, paused, timedOut])
+          if (outcome === 'paused') return
+
+          if (outcome === 'timeout') {
+            const current = await readRegistration(row.entry.address)
+            if (current && current.shares === row.entry.shares && current.name === row.entry.name) {
+              update(index, { status: 'confirmed', error: undefined })
+              confirmed++
+            } else {
+              update(index, { status: 'failed', error: 'No receipt arrived and the register is unchanged' })
+              failed++
+            }
+          } else if (outcome) {
+            update(index, { status: 'confirmed', error: undefined })
+            confirmed++
+          } else {
+            update(index, { status: 'failed', error: 'Transaction failed' })
+            failed++
+          }
+        } catch (error) {
+          console.error(`Shareholder import failed on line ${row.line}:`, error)
+          update(index, { status: 'failed', error: normalizeError(error, adapter.contract.interface).message })
+          failed++
+        } finally {
+          clearTimeout(timer)
+        }
+      })())
+    }
+
+    try {
+      for (let index = 0; index < rows.length; index++) {
+        if (controller.signal.aborted) break
+
+        const row = rows[index]
+        if (row.status === 'confirmed' || row.status === 'skipped') continue
+
+        // A transaction sent before the page was closed
+        if (row.status === 'submitted' && row.txHash) {
+          settle(index, resumeTransaction(queue.chainId, row.txHash))
+          continue
+        }
+
+        try {
+          // Skip rows the register already reflects, e.g. after an interrupted run
+          const current = await readRegistration(row.entry.address)
+          if (current && current.shares === row.entry.shares && current.name === row.entry.name) {
+            update(index, { status: 'confirmed', error: undefined })
+            confirmed++
+            continue
+          }
+
+          // A row the contract would reject fails here without a wallet prompt
+          await adapter.staticCall.addShareholder(row.entry.address, row.entry.shares, row.entry.name)
+          const startBlock = await getStartBlock(queue.chainId)
+          const tx = await adapter.addShareholder(row.entry.address, row.entry.shares, row.entry.name)
+          update(index, { status: 'submitted', txHash: tx.hash, error: undefined })
+
+          settle(index, trackTransaction(tx, {
+            kind: 'addShareholder',
+            description: `Register ${row.entry.name || formatAddress(row.entry.address)}`,
+          }, startBlock))
+        } catch (error) {
+          const web3Error = normalizeError(error, adapter.contract.interface)
+          // Rejecting in the wallet pauses the import rather than failing the row
+          if (web3Error.code === Web3ErrorCode.USER_REJECTED) {
+            update(index, { status: 'pending', txHash: undefined })
+            rejected = true
+            break
+          }
+
+          console.error(`Shareholder import failed on line ${row.line}:`, error)
+          update(index, { status: 'failed', error: web3Error.message })
+          failed++
+        }
+      }
+
+      await Promise.all(receipts)
+
+      if (rejected || controller.signal.aborted) {
+        toast('Import paused. Resume to continue where it stopped.')
+      } else if (failed > 0) {
+        toast.error(`${confirmed} shareholders saved, ${failed} failed`)
+      } else if (confirmed > 0) {
+        toast.success(`${confirmed} shareholders saved`)
+      }
+    } finally {
+      runControllerRef.current = null
+      setIsRunning(false)
+    }
+  }, [queue, adapter, contract.readOnly, wallet.account, readRegistration])
+
+  // Stop sending rows and stop waiting on submitted ones; the next run picks their receipts up
+  const pause = useCallback(() => {
+    runControllerRef.current?.abort()
+  }, [])
+
+  const discard = useCallback(() => {
+    if (queue) clearImportQueue(queue.chainId, queue.contractAddress)
+    setQueue(null)
+  }, [queue])
+
+  const remaining = queue?.rows.filter(
+    (row) => row.status === 'pending' || row.status === 'submitted' || row.status === 'failed'
+  ).length ?? 0
+
+  return {
+    queue,
+    remaining,
+    isPreviewing,
+    isRunning,
+    preview,
+    run,
+    pause,
+    discard,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react'
+import {
+  SIMULATED_ACCOUNTS,
+  advanceSimulatedTime,
+  getSimulatedChainSnapshot,
+  resetSimulatedChain,
+  selectSimulatedAccount,
+  subscribeToSimulatedChain,
+} from '@/simulator/simulatedChain'
+
+// Head block, clock and selected account of the in-browser simulated chain
+export const useSimulatedChain = () => {
+  const snapshot = useSyncExternalStore(subscribeToSimulatedChain, getSimulatedChainSnapshot)
+
+  return {
+    ...snapshot,
+    accounts: SIMULATED_ACCOUNTS,
+    advanceTime: advanceSimulatedTime,
+    selectAccount: selectSimulatedAccount,
+    reset: resetSimulatedChain,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { ethers } from 'ethers'
+import toast from 'react-hot-toast'
+import {
+  TransactionMeta,
+  clearSettledTransactions,
+  getStartBlock,
+  getTransactions,
+  isTransactionSettled,
+  subscribeToTransactions,
+  trackTransaction,
+} from '@/contracts/transactionManager'
+import { normalizeError } from '@/contracts/errors'
+import { TRANSACTION_CONFIG } from '@/utils/constants'
+
+export interface TransactionRequest extends TransactionMeta {
+  chainId: number
+  // Simulation run before the wallet prompt so a revert is reported without signing
+  preflight?: () => Promise<unknown>
+  // Decodes custom errors from raw revert data
+  contractInterface?: ethers.Interface
+  // Gas estimate for the call; defaultGasLimit is used when it fails
+  estimateGas?: () => Promise<bigint>
+  defaultGasLimit?: bigint
+  send: (overrides: ethers.Overrides) => Promise<ethers.ContractTransactionResponse>
+  // Shown with the block number once mined
+  successMessage: string
+  // Shown when the error is not recognised
+  errorMessage?: string
+  // Loading toast to continue, e.g. one already showing permission checks
+  toastId?: string
+}
+
+// Simulate, estimate, send, record and wait for a transaction with toast feedback. Resolves with
+// the receipt once mined, or null when rejected, reverted or replaced.
+export const runTransaction = async (request: TransactionRequest): Promise<ethers.TransactionReceipt | null> => {
+  const toastId = request.toastId ?? toast.loading('Preparing transaction...')
+
+  try {
+    if (request.preflight) {
+      try {
+        await request.preflight()
+      } catch (error) {
+        // Only a revert stops here; RPC trouble is left to the wallet
+        if (ethers.isError(error, 'CALL_EXCEPTION')) throw error
+        console.warn(`Preflight failed for ${request.kind}:`, error)
+      }
+    }
+
+    const overrides: ethers.Overrides = {}
+    if (request.estimateGas) {
+      let gasEstimate = request.defaultGasLimit ?? 0n
+      try {
+        gasEstimate = await request.estimateGas()
+      } catch (error) {
+        console.error(`Gas estimation failed for ${request.kind}:`, error)
+      }
+      if (gasEstimate > 0n) {
+        overrides.gasLimit = (gasEstimate * BigInt(100 + TRANSACTION_CONFIG.GAS_BUFFER_PERCENT)) / 100n
+      }
+    }
+
+    toast.loading('Please confirm transaction in your wallet...', { id: toastId })
+
+    const startBlock = await getStartBlock(request.chainId)
+    const tx = await request.send(overrides)
+
+    toast.loading(`Transaction sent: ${tx.hash}`, { id: toastId })
+
+    const receipt = await trackTransaction(tx, request, startBlock)
+    if (receipt) {
+      toast.success(`${request.successMessage} Block: ${receipt.blockNumber}`, { id: toastId })
+    } else {
+      const status = getTransactions().find((record) => record.hash === tx.hash)?.status
+      toast.error(
+        status === 'replaced' || status === 'cancelled' ? `Transaction was ${status} in your wallet` : 'Transaction failed',
+        { id: toastId }
+      )
+    }
+    return receipt
+  } catch (error: any) {
+    console.error(`${request.description} failed:`, error)
+    const web3Error = normalizeError(error, request.contractInterface)
+    toast.error(
+      web3Error.code ? web3Error.message : request.errorMessage ?? web3Error.message,
+      { id: toastId }
+    )
+    return null
+  }
+}
+
+// Recorded transactions, newest first
+export const useTransactions = () => {
+  const transactions = useSyncExternalStore(subscribeToTransactions, getTransactions)
+
+  const pending = useMemo(
+    () => transactions.filter((record) => !isTransactionSettled(record)),
+    [transactions]
+  )
+
+  return {
+    transactions,
+    pending,
+    clearSettled: clearSettledTransactions,
+  }
+}
\ No newline at end of file
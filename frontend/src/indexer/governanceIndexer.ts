@@ -0,0 +1,385 @@
+import { ethers } from 'ethers'
+import type { GovernanceAdapter } from '@/contracts/adapters'
+import type { GovernanceEvent, GovernanceLogMeta } from '@/contracts/governanceClient'
+import {
+  IndexedEventMeta,
+  ProposalCreatedEvent,
+  ShareholderRegisteredEvent,
+  VoteCastEvent,
+} from '@/types/web3'
+import { HARDHAT_CONFIG, INDEXER_CONFIG, SIMULATED_CONFIG } from '@/utils/constants'
+import { getNetworkConfig } from '@/utils/web3'
+import { getAllRecords, getRecord, openDatabase, putRecords, StoreSchema } from './indexedDb'
+
+// Version 2 re-indexes weights that version 1 read from the current registrations
+const DB_VERSION = 2
+
+const STORES = {
+  META: 'meta',
+  PROPOSALS: 'proposals',
+  VOTES: 'votes',
+  SHAREHOLDERS: 'shareholders',
+} as const
+
+const SCHEMAS: StoreSchema[] = [
+  { name: STORES.META, keyPath: 'key' },
+  { name: STORES.PROPOSALS, keyPath: 'proposalId' },
+  { name: STORES.VOTES, keyPath: ['proposalId', 'voter'], indexes: [{ name: 'voter', keyPath: 'voter' }] },
+  { name: STORES.SHAREHOLDERS, keyPath: 'shareholder' },
+]
+
+export interface CompanyInitializedEvent extends IndexedEventMeta {
+  name: string
+}
+
+interface CursorRecord {
+  key: 'cursor'
+  lastBlock: number
+}
+
+interface CompanyRecord {
+  key: 'company'
+  event: CompanyInitializedEvent
+}
+
+export type IndexerStatus = 'idle' | 'syncing' | 'live' | 'error'
+
+export interface GovernanceIndexSnapshot {
+  status: IndexerStatus
+  error: string | null
+  lastIndexedBlock: number | null
+  company: CompanyInitializedEvent | null
+  // Sorted by proposal ID
+  proposals: ProposalCreatedEvent[]
+  // Chronological
+  votes: VoteCastEvent[]
+  // Chronological by latest registration
+  shareholders: ShareholderRegisteredEvent[]
+}
+
+export interface GovernanceIndexer {
+  getSnapshot: () => GovernanceIndexSnapshot
+  subscribe: (listener: () => void) => () => void
+  // Keep the indexer following new blocks; call the returned function to release
+  retain: () => () => void
+  // Backfill from the last indexed block up to the chain head
+  sync: () => Promise<void>
+}
+
+export const EMPTY_INDEX_SNAPSHOT: GovernanceIndexSnapshot = {
+  status: 'idle',
+  error: null,
+  lastIndexedBlock: null,
+  company: null,
+  proposals: [],
+  votes: [],
+  shareholders: [],
+}
+
+interface IndexedBatch {
+  company: CompanyInitializedEvent | null
+  proposals: ProposalCreatedEvent[]
+  votes: VoteCastEvent[]
+  shareholders: ShareholderRegisteredEvent[]
+}
+
+// Chains short enough to index from genesis when no deployment block is known. On public
+// networks that would page through millions of blocks on a shared RPC key.
+const LOCAL_CHAIN_IDS = [HARDHAT_CONFIG.chainId, SIMULATED_CONFIG.chainId]
+
+const byBlockOrder = (a: GovernanceLogMeta, b: GovernanceLogMeta) =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+
+const voteKey = (vote: VoteCastEvent) => `${vote.proposalId}:${vote.voter}`
+
+const createGovernanceIndexer = (adapter: GovernanceAdapter): GovernanceIndexer => {
+  const provider = adapter.runner.provider
+  if (!provider) {
+    throw new Error('Governance indexer requires a connected provider')
+  }
+
+  const listeners = new Set<() => void>()
+  const blockTimestamps = new Map<number, number>()
+  let snapshot = EMPTY_INDEX_SNAPSHOT
+  let db: IDBDatabase | null = null
+  let deploymentBlock = 0
+  let networkName = ''
+  let deployedAt: number | undefined
+  let isLocalChain = false
+  let retainCount = 0
+  let syncing: Promise<void> | null = null
+  // Pruned RPCs refuse state older than about 128 blocks; after the first refusal
+  // registrations are read from the current state for the rest of the session
+  let historicalStateAvailable = true
+  let historicalReadsLeft = 0
+  let resyncRequested = false
+
+  const setSnapshot = (patch: Partial<GovernanceIndexSnapshot>) => {
+    snapshot = { ...snapshot, ...patch }
+    listeners.forEach((listener) => listener())
+  }
+
+  // Merge newly indexed records into the in-memory snapshot
+  const mergeBatch = (batch: IndexedBatch, lastBlock: number) => {
+    const proposals = new Map(snapshot.proposals.map((p) => [p.proposalId, p]))
+    batch.proposals.forEach((p) => proposals.set(p.proposalId, p))
+
+    const votes = new Map(snapshot.votes.map((v) => [voteKey(v), v]))
+    batch.votes.forEach((v) => votes.set(voteKey(v), v))
+
+    const shareholders = new Map(snapshot.shareholders.map((s) => [s.shareholder, s]))
+    batch.shareholders.forEach((s) => shareholders.set(s.shareholder, s))
+
+    setSnapshot({
+      lastIndexedBlock: lastBlock,
+      company: batch.company ?? snapshot.company,
+      proposals: [...proposals.values()].sort((a, b) => a.proposalId - b.proposalId),
+      votes: [...votes.values()].sort(byBlockOrder),
+      shareholders: [...shareholders.values()].sort(byBlockOrder),
+    })
+  }
+
+  // Open this contract's database and load what was indexed in earlier sessions
+  const openStore = async (): Promise<IDBDatabase> => {
+    if (db) return db
+
+    const { chainId } = await provider.getNetwork()
+    const network = getNetworkConfig(Number(chainId))
+    deploymentBlock = network?.deploymentBlock ?? 0
+    networkName = network?.name ?? `chain ${chainId}`
+    deployedAt = network?.deployedAt
+    isLocalChain = LOCAL_CHAIN_IDS.includes(Number(chainId))
+    const name = `${INDEXER_CONFIG.DB_PREFIX}:${chainId}:${adapter.address.toLowerCase()}`
+    db = await openDatabase(name, DB_VERSION, SCHEMAS)
+
+    const [cursor, company, proposals, votes, shareholders] = await Promise.all([
+      getRecord<CursorRecord>(db, STORES.META, 'cursor'),
+      getRecord<CompanyRecord>(db, STORES.META, 'company'),
+      getAllRecords<ProposalCreatedEvent>(db, STORES.PROPOSALS),
+      getAllRecords<VoteCastEvent>(db, STORES.VOTES),
+      getAllRecords<ShareholderRegisteredEvent>(db, STORES.SHAREHOLDERS),
+    ])
+
+    if (cursor) {
+      mergeBatch({ company: company?.event ?? null, proposals, votes, shareholders }, cursor.lastBlock)
+    }
+    return db
+  }
+
+  const getTimestamp = async (blockNumber: number): Promise<number> => {
+    const cached = blockTimestamps.get(blockNumber)
+    if (cached !== undefined) return cached
+
+    const block = await provider.getBlock(blockNumber)
+    const timestamp = block?.timestamp ?? 0
+    blockTimestamps.set(blockNumber, timestamp)
+    return timestamp
+  }
+
+  // First block mined at or after `time`, found by bisecting block timestamps. Headers are
+  // served by pruned nodes too, unlike the state a getCode search would need.
+  const findBlockAt = async (time: number, latest: number): Promise<number> => {
+    let low = 0
+    let high = latest
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2)
+      if ((await getTimestamp(middle)) < time) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  // Registration as of `blockNumber` while the budget and the RPC allow, else as it is now
+  const readShareholder = async (address: string, blockNumber: number) => {
+    if (historicalStateAvailable && historicalReadsLeft > 0) {
+      historicalReadsLeft--
+      try {
+        return await adapter.getShareholder(address, blockNumber)
+      } catch (error) {
+        console.warn('Historical state is unavailable, indexing current registrations instead:', error)
+        historicalStateAvailable = false
+      }
+    }
+    return adapter.getShareholder(address)
+  }
+
+  // Decode a chunk of logs and enrich them with the contract state they refer to
+  const processLogs = async (logs: ethers.Log[]): Promise<IndexedBatch> => {
+    const events = logs
+      .map((log) => adapter.decodeLog(log))
+      .filter((event): event is GovernanceEvent => event !== null)
+      .sort(byBlockOrder)
+
+    const batch: IndexedBatch = { company: null, proposals: [], votes: [], shareholders: [] }
+    // Shares per address as of the event being processed. addShareholder overwrites earlier
+    // registrations, so registrations are read at the event's block where possible and votes
+    // take the weight of the latest registration before them.
+    const knownShares = new Map(snapshot.shareholders.map((s) => [s.shareholder, s.shares]))
+
+    for (const event of events) {
+      const meta: IndexedEventMeta = {
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        timestamp: await getTimestamp(event.blockNumber),
+      }
+
+      switch (event.name) {
+        case 'CompanyInit':
+          batch.company = { name: event.companyName, ...meta }
+          break
+        case 'ShareholderAdd': {
+          const shareholder = await readShareholder(event.shareholder, event.blockNumber)
+          knownShares.set(event.shareholder, shareholder.shares)
+          batch.shareholders.push({
+            shareholder: event.shareholder,
+            shares: shareholder.shares,
+            name: shareholder.name,
+            ...meta,
+          })
+          break
+        }
+        case 'ProposalAdd': {
+          const proposal = await adapter.getProposal(event.proposalId)
+          batch.proposals.push({
+            proposalId: event.proposalId,
+            proposer: proposal.proposer,
+            title: proposal.title,
+            proposalType: proposal.proposalType,
+            ...meta,
+          })
+          break
+        }
+        case 'VoteAdd': {
+          let weight = knownShares.get(event.voter)
+          if (weight === undefined) {
+            weight = (await readShareholder(event.voter, event.blockNumber)).shares
+            knownShares.set(event.voter, weight)
+          }
+          batch.votes.push({
+            proposalId: event.proposalId,
+            voter: event.voter,
+            choice: event.choice ?? null,
+            weight,
+            ...meta,
+          })
+          break
+        }
+      }
+    }
+
+    return batch
+  }
+
+  const persistBatch = async (store: IDBDatabase, batch: IndexedBatch, lastBlock: number) => {
+    const meta: Array<CursorRecord | CompanyRecord> = [{ key: 'cursor', lastBlock }]
+    if (batch.company) {
+      meta.push({ key: 'company', event: batch.company })
+    }
+    await putRecords(store, {
+      [STORES.META]: meta,
+      [STORES.PROPOSALS]: batch.proposals,
+      [STORES.VOTES]: batch.votes,
+      [STORES.SHAREHOLDERS]: batch.shareholders,
+    })
+  }
+
+  const runSync = async () => {
+    try {
+      const store = await openStore()
+      const latest = await provider.getBlockNumber()
+      historicalReadsLeft = INDEXER_CONFIG.MAX_HISTORICAL_READS
+      if (snapshot.lastIndexedBlock === null && !deploymentBlock && !isLocalChain) {
+        if (deployedAt === undefined) {
+          throw new Error(`No deployment block is configured for ${networkName}, so past events cannot be indexed`)
+        }
+        deploymentBlock = await findBlockAt(deployedAt - INDEXER_CONFIG.DEPLOYMENT_TIME_MARGIN, latest)
+      }
+      let fromBlock = (snapshot.lastIndexedBlock ?? deploymentBlock - 1) + 1
+
+      if (fromBlock <= latest) {
+        setSnapshot({ status: 'syncing', error: null })
+      }
+
+      // Backfill in chunks so public RPC range limits are respected
+      while (fromBlock <= latest) {
+        const toBlock = Math.min(fromBlock + INDEXER_CONFIG.LOG_CHUNK_SIZE - 1, latest)
+        const logs = await provider.getLogs({
+          address: adapter.address,
+          topics: [adapter.eventTopics],
+          fromBlock,
+          toBlock,
+        })
+        const batch = await processLogs(logs)
+        await persistBatch(store, batch, toBlock)
+        mergeBatch(batch, toBlock)
+        fromBlock = toBlock + 1
+      }
+
+      setSnapshot({ status: 'live', error: null })
+    } catch (error: any) {
+      console.error('Governance indexer sync failed:', error)
+      setSnapshot({ status: 'error', error: error.message })
+    }
+  }
+
+  const sync = async (): Promise<void> => {
+    if (syncing) {
+      resyncRequested = true
+      return syncing
+    }
+
+    syncing = runSync().finally(() => {
+      syncing = null
+    })
+    await syncing
+
+    if (resyncRequested) {
+      resyncRequested = false
+      await sync()
+    }
+  }
+
+  const handleBlock = () => {
+    sync()
+  }
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    retain: () => {
+      retainCount++
+      if (retainCount === 1) {
+        provider.on('block', handleBlock)
+        sync()
+      }
+      return () => {
+        retainCount--
+        if (retainCount === 0) {
+          provider.off('block', handleBlock)
+        }
+      }
+    },
+    sync,
+  }
+}
+
+// One indexer per adapter instance, shared by every component that reads the index
+const indexers = new WeakMap<GovernanceAdapter, GovernanceIndexer>()
+
+export const getGovernanceIndexer = (adapter: GovernanceAdapter): GovernanceIndexer => {
+  let indexer = indexers.get(adapter)
+  if (!indexer) {
+    indexer = createGovernanceIndexer(adapter)
+    indexers.set(adapter, indexer)
+  }
+  return indexer
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+// Minimal promise wrapper around IndexedDB for the event indexer and local stores
+
+export interface StoreSchema {
+  name: string
+  keyPath: string | string[]
+  indexes?: Array<{ name: string; keyPath: string }>
+}
+
+// Resolve an IDBRequest as a promise
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Resolve once a transaction has committed
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+// Open (and create or upgrade) a database with the given object stores
+export const openDatabase = (
+  name: string,
+  version: number,
+  stores: StoreSchema[]
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      stores.forEach((schema) => {
+        if (db.objectStoreNames.contains(schema.name)) {
+          db.deleteObjectStore(schema.name)
+        }
+        const store = db.createObjectStore(schema.name, { keyPath: schema.keyPath })
+        schema.indexes?.forEach((index) => store.createIndex(index.name, index.keyPath))
+      })
+    }
+    request.onsuccess = () => {
+      // Step aside when another page upgrades or deletes the database
+      request.result.onversionchange = () => request.result.close()
+      resolve(request.result)
+    }
+    request.onerror = () => reject(request.error)
+  })
+
+// Delete a whole database
+export const deleteDatabase = (name: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve()
+      return
+    }
+    const request = indexedDB.deleteDatabase(name)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+
+// Read every record of a store
+export const getAllRecords = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> => {
+  const transaction = db.transaction(storeName, 'readonly')
+  return requestToPromise(transaction.objectStore(storeName).getAll() as IDBRequest<T[]>)
+}
+
+// Read one record by key
+export const getRecord = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  key: IDBValidKey
+): Promise<T | undefined> => {
+  const transaction = db.transaction(storeName, 'readonly')
+  return requestToPromise(transaction.objectStore(storeName).get(key) as IDBRequest<T | undefined>)
+}
+
+// Write records to several stores in a single transaction
+export const putRecords = async (
+  db: IDBDatabase,
+  records: Record<string, unknown[]>
+): Promise<void> => {
+  const storeNames = Object.keys(records)
+  if (storeNames.length === 0) return
+
+  const transaction = db.transaction(storeNames, 'readwrite')
+  storeNames.forEach((storeName) => {
+    const store = transaction.objectStore(storeName)
+    records[storeName].forEach((record) => store.put(record))
+  })
+  await transactionDone(transaction)
+}
+
+// Delete the records matching a key or key range
+export const deleteRecords = async (
+  db: IDBDatabase,
+  storeName: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<void> => {
+  const transaction = db.transaction(storeName, 'readwrite')
+  transaction.objectStore(storeName).delete(query)
+  await transactionDone(transaction)
+}
\ No newline at end of file
@@ -1,65 +1,75 @@
-import React from 'react'
-import ReactDOM from 'react-dom/client'
-import { BrowserRouter } from 'react-router-dom'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { Toaster } from 'react-hot-toast'
-
-import App from './App'
-import { Web3Provider } from './providers/Web3Provider'
-import './index.css'
-
-// Create a React Query client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 3,
-      staleTime: 5 * 60 * 1000, // 5 minutes
-    },
-  },
-})
-
-// Hide loading screen
-const hideLoadingScreen = () => {
-  const loadingScreen = document.getElementById('loading-screen')
-  if (loadingScreen) {
-    loadingScreen.style.opacity = '0'
-    setTimeout(() => {
-      loadingScreen.style.display = 'none'
-    }, 500)
-  }
-}
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <BrowserRouter>
-      <QueryClientProvider client={queryClient}>
-        <Web3Provider>
-          <App />
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-              success: {
-                style: {
-                  background: '#10b981',
-                },
-              },
-              error: {
-                style: {
-                  background: '#ef4444',
-                },
-              },
-            }}
-          />
-        </Web3Provider>
-      </QueryClientProvider>
-    </BrowserRouter>
-  </React.StrictMode>
-)
-
-// Hide loading screen after React is rendered
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { Toaster } from 'react-hot-toast'
+
+import App from './App'
+import { Web3Provider } from './providers/Web3Provider'
+import { DemoDataProvider } from './providers/DemoDataProvider'
+import { announceSimulatedWallet } from './simulator/simulatedProviders'
+import { SIMULATED_CHAIN_ENABLED } from './utils/constants'
+import './index.css'
+
+// Create a React Query client
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: 3,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    },
+  },
+})
+
+// Offer the simulated wallet before wallet discovery starts
+if (SIMULATED_CHAIN_ENABLED) {
+  announceSimulatedWallet()
+}
+
+// Hide loading screen
+const hideLoadingScreen = () => {
+  const loadingScreen = document.getElementById('loading-screen')
+  if (loadingScreen) {
+    loadingScreen.style.opacity = '0'
+    setTimeout(() => {
+      loadingScreen.style.display = 'none'
+    }, 500)
+  }
+}
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <BrowserRouter>
+      <QueryClientProvider client={queryClient}>
+        <Web3Provider>
+          <DemoDataProvider>
+            <App />
+          </DemoDataProvider>
+          <Toaster
+            position="top-right"
+            toastOptions={{
+              duration: 4000,
+              style: {
+                background: '#363636',
+                color: '#fff',
+              },
+              success: {
+                style: {
+                  background: '#10b981',
+                },
+              },
+              error: {
+                style: {
+                  background: '#ef4444',
+                },
+              },
+            }}
+          />
+        </Web3Provider>
+      </QueryClientProvider>
+    </BrowserRouter>
+  </React.StrictMode>
+)
+
+// Hide loading screen after React is rendered
 setTimeout(hideLoadingScreen, 500)
\ No newline at end of file
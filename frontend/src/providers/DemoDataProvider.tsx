@@ -0,0 +1,90 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react'
+
+import { DemoDataContext as DemoDataContextValue, Proposal, ProposalSource, VoteChoice } from '@/types/web3'
+import { createDemoProposals } from '@/data/demoProposals'
+import { DEMO_DATA_DEFAULT, STORAGE_KEYS } from '@/utils/constants'
+
+// Shares each simulated ballot counts for
+const DEMO_VOTE_WEIGHT = 100
+
+interface DemoStore {
+  proposals: Proposal[]
+  voted: Set<number>
+}
+
+// The toggle wins over VITE_DEMO_DATA once it has been used
+const readDemoMode = (): boolean => {
+  const stored = localStorage.getItem(STORAGE_KEYS.DEMO_MODE)
+  return stored === null ? DEMO_DATA_DEFAULT : stored === 'true'
+}
+
+const DemoDataContext = createContext<DemoDataContextValue | null>(null)
+
+interface DemoDataProviderProps {
+  children: React.ReactNode
+}
+
+// Sample proposals behind the same ProposalSource interface as the contract. Ballots are
+// tallied in memory for the session and never reach a wallet or the chain.
+export const DemoDataProvider: React.FC<DemoDataProviderProps> = ({ children }) => {
+  const [isDemoMode, setIsDemoMode] = useState(readDemoMode)
+  const [store, setStore] = useState<DemoStore>(() => ({ proposals: createDemoProposals(), voted: new Set() }))
+  // Lookups read the ref so they keep their identity across votes
+  const storeRef = useRef(store)
+
+  const setDemoMode = useCallback((enabled: boolean) => {
+    localStorage.setItem(STORAGE_KEYS.DEMO_MODE, String(enabled))
+    setIsDemoMode(enabled)
+  }, [])
+
+  const getActiveProposals = useCallback(() => {
+    const now = Math.floor(Date.now() / 1000)
+    return store.proposals
+      .filter(p => p.active && p.deadline > now)
+      .map(p => ({ ...p, hasVoted: store.voted.has(p.id) }))
+  }, [store])
+
+  const loadProposal = useCallback(async (id: number) => {
+    const { proposals, voted } = storeRef.current
+    const proposal = proposals.find(p => p.id === id)
+    return proposal ? { ...proposal, hasVoted: voted.has(id) } : null
+  }, [])
+
+  const hasVoted = useCallback(async (id: number) => storeRef.current.voted.has(id), [])
+
+  const castVote = useCallback(async (id: number, choice: VoteChoice) => {
+    const { proposals, voted } = storeRef.current
+    if (voted.has(id) || !proposals.some(p => p.id === id)) return false
+
+    storeRef.current = {
+      proposals: proposals.map(p => p.id !== id ? p : {
+        ...p,
+        forVotes: p.forVotes + (choice === VoteChoice.FOR ? DEMO_VOTE_WEIGHT : 0),
+        againstVotes: p.againstVotes + (choice === VoteChoice.AGAINST ? DEMO_VOTE_WEIGHT : 0),
+      }),
+      voted: new Set(voted).add(id),
+    }
+    setStore(storeRef.current)
+    return true
+  }, [])
+
+  const source = useMemo<ProposalSource>(
+    () => ({ isDemo: true, getActiveProposals, loadProposal, hasVoted, castVote }),
+    [getActiveProposals, loadProposal, hasVoted, castVote]
+  )
+
+  const contextValue = useMemo(
+    () => ({ isDemoMode, setDemoMode, source }),
+    [isDemoMode, setDemoMode, source]
+  )
+
+  return <DemoDataContext.Provider value={contextValue}>{children}</DemoDataContext.Provider>
+}
+
+export const useDemoData = (): DemoDataContextValue => {
+  const context = useContext(DemoDataContext)
+  if (!context) {
+    throw new Error('useDemoData must be used within a DemoDataProvider')
+  }
+  return context
+}
\ No newline at end of file
@@ -1,362 +1,678 @@
-import React, { createContext, useContext, useEffect, useReducer, useCallback } from 'react'
-import { ethers } from 'ethers'
-import toast from 'react-hot-toast'
-
-import {
-  WalletState,
-  ContractState,
-  Web3ProviderContext,
-  Web3Error,
-  Web3ErrorCode,
-} from '@/types/web3'
-import {
-  isMetaMaskInstalled,
-  getProvider,
-  requestAccounts,
-  getCurrentChainId,
-  switchToSepolia,
-  getBalance,
-  handleMetaMaskError,
-} from '@/utils/web3'
-import { CONTRACT_ADDRESS, CONTRACT_ABI, SEPOLIA_CONFIG } from '@/utils/constants'
-
-// Provider state type
-interface Web3State {
-  wallet: WalletState
-  contract: ContractState
-}
-
-// Action type
-type Web3Action =
-  | { type: 'SET_CONNECTING'; payload: boolean }
-  | { type: 'SET_WALLET'; payload: Partial<WalletState> }
-  | { type: 'SET_CONTRACT'; payload: Partial<ContractState> }
-  | { type: 'SET_ERROR'; payload: string }
-  | { type: 'RESET_WALLET' }
-
-// Initial state
-const initialState: Web3State = {
-  wallet: {
-    account: null,
-    chainId: null,
-    isConnected: false,
-    isConnecting: false,
-    error: null,
-    balance: null,
-  },
-  contract: {
-    contract: null,
-    isLoading: false,
-    error: null,
-  },
-}
-
-// Reducer
-const web3Reducer = (state: Web3State, action: Web3Action): Web3State => {
-  switch (action.type) {
-    case 'SET_CONNECTING':
-      return {
-        ...state,
-        wallet: { ...state.wallet, isConnecting: action.payload, error: null },
-      }
-    case 'SET_WALLET':
-      return {
-        ...state,
-        wallet: { ...state.wallet, ...action.payload },
-      }
-    case 'SET_CONTRACT':
-      return {
-        ...state,
-        contract: { ...state.contract, ...action.payload },
-      }
-    case 'SET_ERROR':
-      return {
-        ...state,
-        wallet: { ...state.wallet, error: action.payload },
-      }
-    case 'RESET_WALLET':
-      return {
-        ...state,
-        wallet: initialState.wallet,
-        contract: initialState.contract,
-      }
-    default:
-      return state
-  }
-}
-
-// Context creation
-const Web3Context = createContext<Web3ProviderContext | null>(null)
-
-// Provider component properties
-interface Web3ProviderProps {
-  children: React.ReactNode
-}
-
-export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
-  const [state, dispatch] = useReducer(web3Reducer, initialState)
-
-  // Initialize contract instance
-  const initializeContract = useCallback(async (signer: ethers.Signer) => {
-    try {
-      dispatch({ type: 'SET_CONTRACT', payload: { isLoading: true, error: null } })
-      
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer)
-      
-      // Test contract connection
-      try {
-        await contract.companyName()
-      } catch (error: any) {
-        console.warn('Contract test call failed:', error.message)
-        // Continue using contract, may be newly deployed contract
-      }
-      
-      dispatch({
-        type: 'SET_CONTRACT',
-        payload: { contract, isLoading: false, error: null },
-      })
-    } catch (error: any) {
-      const errorMessage = `Failed to initialize contract: ${error.message}`
-      dispatch({
-        type: 'SET_CONTRACT',
-        payload: { contract: null, isLoading: false, error: errorMessage },
-      })
-      toast.error(errorMessage)
-    }
-  }, [])
-
-  // Get balance
-  const getWalletBalance = useCallback(async (): Promise<string> => {
-    if (!state.wallet.account) {
-      throw new Web3Error('Wallet not connected', Web3ErrorCode.NOT_AUTHORIZED)
-    }
-    
-    try {
-      const balance = await getBalance(state.wallet.account)
-      dispatch({ type: 'SET_WALLET', payload: { balance } })
-      return balance
-    } catch (error: any) {
-      const errorMessage = `Failed to get balance: ${error.message}`
-      dispatch({ type: 'SET_ERROR', payload: errorMessage })
-      throw new Web3Error(errorMessage, Web3ErrorCode.NETWORK_ERROR)
-    }
-  }, [state.wallet.account])
-
-  // Connect wallet with 7-step process
-  const connectWallet = useCallback(async (): Promise<void> => {
-    try {
-      dispatch({ type: 'SET_CONNECTING', payload: true })
-
-      // Step 1: Detection - Check window.ethereum (MetaMask provider)
-      if (!isMetaMaskInstalled()) {
-        const errorMessage = 'Please install MetaMask wallet'
-        toast.error(errorMessage)
-        dispatch({ type: 'SET_ERROR', payload: errorMessage })
-        return
-      }
-
-      // Step 2: Request Access - Use eth_requestAccounts to get user permission
-      const accounts = await requestAccounts()
-      const account = accounts[0]
-
-      // Step 3: Network Verification - Verify connection to Sepolia testnet (0xaa36a7)
-      const chainId = await getCurrentChainId()
-      const expectedChainId = SEPOLIA_CONFIG.chainId // 11155111 (0xaa36a7)
-
-      // Step 4: Network Switching - Auto switch/add Sepolia if needed
-      if (chainId !== expectedChainId) {
-        try {
-          await switchToSepolia()
-          // Verify the switch was successful
-          const newChainId = await getCurrentChainId()
-          if (newChainId !== expectedChainId) {
-            throw new Error('Failed to switch to Sepolia testnet')
-          }
-        } catch (switchError: any) {
-          const errorMessage = 'Please manually switch to Sepolia testnet'
-          toast.error(errorMessage)
-          dispatch({ type: 'SET_ERROR', payload: errorMessage })
-          return
-        }
-      }
-
-      // Step 5: Provider Setup - Create ethers.js BrowserProvider and signer
-      const provider = getProvider()
-      if (!provider) {
-        throw new Error('Failed to get provider')
-      }
-      const signer = await provider.getSigner()
-
-      // Step 6: Contract Initialization - Create game contract instance
-      await initializeContract(signer)
-
-      // Step 7: State Update - Update React state with account and contract
-      dispatch({
-        type: 'SET_WALLET',
-        payload: {
-          account,
-          chainId: expectedChainId,
-          isConnected: true,
-          isConnecting: false,
-          error: null,
-        },
-      })
-
-      // Get initial state - fetch balance
-      try {
-        const balance = await getBalance(account)
-        dispatch({ type: 'SET_WALLET', payload: { balance } })
-      } catch (balanceError) {
-        console.warn('Failed to fetch balance:', balanceError)
-      }
-
-      // Success handling
-      toast.success(`Connected to Sepolia! ✅`)
-      
-      // Save to local storage
-      localStorage.setItem('lastConnectedAccount', account)
-      
-    } catch (error: any) {
-      const web3Error = error instanceof Web3Error ? error : handleMetaMaskError(error)
-      
-      dispatch({
-        type: 'SET_WALLET',
-        payload: {
-          isConnecting: false,
-          error: web3Error.message,
-        },
-      })
-      
-      toast.error(web3Error.message)
-    }
-  }, [getWalletBalance, initializeContract])
-
-  // Disconnect wallet
-  const disconnectWallet = useCallback((): void => {
-    dispatch({ type: 'RESET_WALLET' })
-    localStorage.removeItem('lastConnectedAccount')
-    toast.success('Wallet disconnected')
-  }, [])
-
-  // Refresh wallet information
-  const refreshWallet = useCallback(async (): Promise<void> => {
-    if (!state.wallet.isConnected || !state.wallet.account) {
-      return
-    }
-
-    try {
-      // Refresh balance
-      const balance = await getBalance(state.wallet.account)
-      dispatch({ type: 'SET_WALLET', payload: { balance } })
-      
-      // Reinitialize contract
-      const provider = getProvider()
-      if (provider) {
-        const signer = await provider.getSigner()
-        await initializeContract(signer)
-      }
-    } catch (error: any) {
-      console.error('Failed to refresh wallet information:', error)
-    }
-  }, [state.wallet.isConnected, state.wallet.account, getWalletBalance, initializeContract])
-
-  // Listen for account changes
-  useEffect(() => {
-    if (!isMetaMaskInstalled()) return
-
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length === 0) {
-        disconnectWallet()
-      } else if (accounts[0] !== state.wallet.account) {
-        // Account changed, reconnect
-        connectWallet()
-      }
-    }
-
-    const handleChainChanged = (chainId: string) => {
-      const newChainId = parseInt(chainId, 16)
-      if (newChainId !== SEPOLIA_CONFIG.chainId && state.wallet.isConnected) {
-        toast.error('Please switch to Sepolia testnet')
-        dispatch({
-          type: 'SET_WALLET',
-          payload: { chainId: newChainId, error: 'Network mismatch' },
-        })
-      } else if (newChainId === SEPOLIA_CONFIG.chainId) {
-        dispatch({
-          type: 'SET_WALLET',
-          payload: { chainId: newChainId, error: null },
-        })
-        refreshWallet()
-      }
-    }
-
-    const handleDisconnect = () => {
-      disconnectWallet()
-    }
-
-    // Add event listeners
-    window.ethereum?.on('accountsChanged', handleAccountsChanged)
-    window.ethereum?.on('chainChanged', handleChainChanged)
-    window.ethereum?.on('disconnect', handleDisconnect)
-
-    // Cleanup function
-    return () => {
-      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged)
-      window.ethereum?.removeListener('chainChanged', handleChainChanged)
-      window.ethereum?.removeListener('disconnect', handleDisconnect)
-    }
-  }, [state.wallet.account, state.wallet.isConnected, connectWallet, disconnectWallet, refreshWallet])
-
-  // Auto-connect to last used account
-  useEffect(() => {
-    const autoConnect = async () => {
-      const lastAccount = localStorage.getItem('lastConnectedAccount')
-      if (lastAccount && isMetaMaskInstalled()) {
-        try {
-          const accounts = await window.ethereum!.request({ method: 'eth_accounts' }) as string[]
-          if (accounts.includes(lastAccount)) {
-            await connectWallet()
-          }
-        } catch (error) {
-          console.warn('Auto-connect failed:', error)
-        }
-      }
-    }
-
-    autoConnect()
-  }, []) // Only execute when component mounts
-
-  // Context value
-  const contextValue: Web3ProviderContext = {
-    wallet: state.wallet,
-    contract: state.contract,
-    connectWallet,
-    disconnectWallet,
-    switchToSepolia,
-    getBalance: getWalletBalance,
-    refreshWallet,
-  }
-
-  return <Web3Context.Provider value={contextValue}>{children}</Web3Context.Provider>
-}
-
-// Hook using Context
-export const useWeb3 = (): Web3ProviderContext => {
-  const context = useContext(Web3Context)
-  if (!context) {
-    throw new Error('useWeb3 must be used within a Web3Provider')
-  }
-  return context
-}
-
-// Extend window type to support ethereum
-declare global {
-  interface Window {
-    ethereum?: {
-      isMetaMask?: boolean
-      request: (request: { method: string; params?: any[] }) => Promise<any>
-      on: (event: string, callback: (...args: any[]) => void) => void
-      removeListener: (event: string, callback: (...args: any[]) => void) => void
-    }
-  }
+import React, { createContext, useContext, useEffect, useReducer, useCallback, useRef, useState, useSyncExternalStore } from 'react'
+import { ethers } from 'ethers'
+import toast from 'react-hot-toast'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+
+import {
+  WalletState,
+  ContractState,
+  Web3ProviderContext,
+  Web3Error,
+  Web3ErrorCode,
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  NetworkConfig,
+  GovernanceActivity,
+  AccountRole,
+  AccountRoles,
+} from '@/types/web3'
+import {
+  setActiveProvider,
+  getProvider,
+  getReadOnlyProvider,
+  getEventProvider,
+  requestAccounts,
+  getCurrentChainId,
+  switchToNetwork,
+  getBalance,
+  handleMetaMaskError,
+  getNetworkConfig,
+  isSupportedChain,
+  getPreferredNetwork,
+  savePreferredNetwork,
+  setChainClockOffset,
+} from '@/utils/web3'
+import { findWallet, getDiscoveredWallets, subscribeToWallets, waitForWallet } from '@/utils/eip6963'
+import { ACTIVITY_CONFIG, DEFAULT_NETWORK, SIMULATED_CONFIG, STORAGE_KEYS, SUPPORTED_NETWORKS } from '@/utils/constants'
+import { governanceKeys } from '@/utils/queryKeys'
+import { GovernanceAdapter, createGovernanceAdapter } from '@/contracts/adapters'
+import type { GovernanceEvent } from '@/contracts/governanceClient'
+import { resumeTransactions } from '@/contracts/transactionManager'
+import { verifyDeployment } from '@/contracts/deploymentManifest'
+import { getSimulatedChainSnapshot, subscribeToSimulatedChain } from '@/simulator/simulatedChain'
+
+// Provider state type
+interface Web3State {
+  wallet: WalletState
+  contract: ContractState
+}
+
+// Action type
+type Web3Action =
+  | { type: 'SET_CONNECTING'; payload: boolean }
+  | { type: 'SET_WALLET'; payload: Partial<WalletState> }
+  | { type: 'SET_CONTRACT'; payload: Partial<ContractState> }
+  | { type: 'SET_ERROR'; payload: string }
+  | { type: 'RESET_WALLET' }
+
+// Initial state
+const initialState: Web3State = {
+  wallet: {
+    account: null,
+    chainId: null,
+    isConnected: false,
+    isConnecting: false,
+    isRestoring: false,
+    error: null,
+    balance: null,
+  },
+  contract: {
+    contract: null,
+    chainId: null,
+    readOnly: false,
+    isLoading: false,
+    error: null,
+    deploymentWarnings: [],
+  },
+}
+
+// Reducer
+const web3Reducer = (state: Web3State, action: Web3Action): Web3State => {
+  switch (action.type) {
+    case 'SET_CONNECTING':
+      return {
+        ...state,
+        wallet: { ...state.wallet, isConnecting: action.payload, error: null },
+      }
+    case 'SET_WALLET':
+      return {
+        ...state,
+        wallet: { ...state.wallet, ...action.payload },
+      }
+    case 'SET_CONTRACT':
+      return {
+        ...state,
+        contract: { ...state.contract, ...action.payload },
+      }
+    case 'SET_ERROR':
+      return {
+        ...state,
+        wallet: { ...state.wallet, error: action.payload },
+      }
+    case 'RESET_WALLET':
+      return {
+        ...state,
+        wallet: initialState.wallet,
+        contract: initialState.contract,
+      }
+    default:
+      return state
+  }
+}
+
+// A previous session exists when both the account and the wallet were saved
+const hasSavedSession = (): boolean =>
+  Boolean(
+    localStorage.getItem(STORAGE_KEYS.LAST_CONNECTED_ACCOUNT) &&
+      localStorage.getItem(STORAGE_KEYS.LAST_WALLET_RDNS)
+  )
+
+// Start in the restoring state so pages do not flash the disconnected UI on reload
+const initWeb3State = (state: Web3State): Web3State => ({
+  ...state,
+  wallet: { ...state.wallet, isRestoring: hasSavedSession() },
+})
+
+const NO_ROLES: AccountRoles = {
+  isOwner: false,
+  isBoardMember: false,
+  isShareholder: false,
+  shares: 0,
+}
+
+// The roles the contract's modifiers check for one account
+const fetchAccountRoles = async (adapter: GovernanceAdapter, account: string): Promise<AccountRoles> => {
+  const [owner, isBoardMember, shareholder] = await Promise.all([
+    adapter.owner(),
+    adapter.isBoardMember(account),
+    adapter.getShareholder(account),
+  ])
+  return {
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isBoardMember,
+    isShareholder: shareholder.active,
+    shares: shareholder.active ? shareholder.shares : 0,
+  }
+}
+
+// Activity feed entry for an event; company initialization is not shown
+const toActivity = (event: GovernanceEvent): GovernanceActivity | null => {
+  const base = {
+    id: `${event.transactionHash}:${event.logIndex}`,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    receivedAt: Date.now(),
+  }
+
+  switch (event.name) {
+    case 'VoteAdd':
+      return { ...base, kind: 'vote', proposalId: event.proposalId, account: event.voter, choice: event.choice ?? null }
+    case 'ProposalAdd':
+      return { ...base, kind: 'proposal', proposalId: event.proposalId, account: null, choice: null }
+    case 'ShareholderAdd':
+      return { ...base, kind: 'shareholder', proposalId: null, account: event.shareholder, choice: null }
+    default:
+      return null
+  }
+}
+
+// Context creation
+const Web3Context = createContext<Web3ProviderContext | null>(null)
+
+// Provider component properties
+interface Web3ProviderProps {
+  children: React.ReactNode
+}
+
+export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(web3Reducer, initialState, initWeb3State)
+  // Only the most recent initialization may update state
+  const contractRequestRef = useRef(0)
+  const wallets = useSyncExternalStore(subscribeToWallets, getDiscoveredWallets)
+  const [activeWallet, setActiveWallet] = useState<EIP6963ProviderDetail | null>(null)
+  const [isWalletPickerOpen, setIsWalletPickerOpen] = useState(false)
+  const [preferredChainId, setPreferredChainId] = useState(() => getPreferredNetwork().chainId)
+  const [activity, setActivity] = useState<GovernanceActivity[]>([])
+  const queryClient = useQueryClient()
+
+  // Initialize contract instance from a wallet signer, or from the public RPC when read-only
+  const initializeContract = useCallback(async (
+    runner: ethers.ContractRunner,
+    network: NetworkConfig,
+    readOnly = false
+  ) => {
+    const requestId = ++contractRequestRef.current
+    try {
+      dispatch({ type: 'SET_CONTRACT', payload: { isLoading: true, error: null } })
+      
+      // Detect the deployed governance variant and wrap it in a common adapter
+      const contract = await createGovernanceAdapter(runner, network.contractAddress)
+      
+      // Test contract connection
+      try {
+        await contract.isInitialized()
+      } catch (error: any) {
+        console.warn('Contract test call failed:', error.message)
+        // Continue using contract, may be newly deployed contract
+      }
+
+      // A stale local deployment looks like a working contract until something fails
+      let deploymentWarnings: string[] = []
+      try {
+        deploymentWarnings = await verifyDeployment(contract, network)
+      } catch (error: any) {
+        console.warn('Could not verify the deployment:', error.message)
+      }
+      deploymentWarnings.forEach((warning) => console.error(`Deployment check failed: ${warning}`))
+      
+      if (requestId !== contractRequestRef.current) return
+      dispatch({
+        type: 'SET_CONTRACT',
+        payload: { contract, chainId: network.chainId, readOnly, isLoading: false, error: null, deploymentWarnings },
+      })
+    } catch (error: any) {
+      if (requestId !== contractRequestRef.current) return
+      const errorMessage = `Failed to initialize contract: ${error.message}`
+      dispatch({
+        type: 'SET_CONTRACT',
+        payload: { contract: null, chainId: network.chainId, readOnly, isLoading: false, error: errorMessage, deploymentWarnings: [] },
+      })
+      // Visitors without a wallet see the error on the page instead
+      if (!readOnly) {
+        toast.error(errorMessage)
+      }
+    }
+  }, [])
+
+  // Browse proposals and results through the public RPC until a wallet connects
+  const initializeReadOnlyContract = useCallback(async (network: NetworkConfig = getPreferredNetwork()) => {
+    await initializeContract(getReadOnlyProvider(network), network, true)
+  }, [initializeContract])
+
+  // Get balance
+  const getWalletBalance = useCallback(async (): Promise<string> => {
+    if (!state.wallet.account) {
+      throw new Web3Error('Wallet not connected', Web3ErrorCode.NOT_AUTHORIZED)
+    }
+    
+    try {
+      const balance = await getBalance(state.wallet.account)
+      dispatch({ type: 'SET_WALLET', payload: { balance } })
+      return balance
+    } catch (error: any) {
+      const errorMessage = `Failed to get balance: ${error.message}`
+      dispatch({ type: 'SET_ERROR', payload: errorMessage })
+      throw new Web3Error(errorMessage, Web3ErrorCode.NETWORK_ERROR)
+    }
+  }, [state.wallet.account])
+
+  // Connect wallet with 7-step process
+  const connectWallet = useCallback(async (rdns?: string): Promise<void> => {
+    // Step 1: Detection - Pick the wallet, asking the user when several are installed
+    const discovered = getDiscoveredWallets()
+    const selected = rdns
+      ? findWallet(rdns)
+      : discovered.length === 1 ? discovered[0] : undefined
+    if (!selected) {
+      setIsWalletPickerOpen(true)
+      return
+    }
+
+    try {
+      setIsWalletPickerOpen(false)
+      dispatch({ type: 'SET_CONNECTING', payload: true })
+      setActiveProvider(selected.provider)
+      setActiveWallet(selected)
+
+      // Step 2: Request Access - Use eth_requestAccounts to get user permission
+      const accounts = await requestAccounts()
+      const account = accounts[0]
+
+      // Step 3: Network Verification - Any network in SUPPORTED_NETWORKS is accepted
+      let chainId = await getCurrentChainId()
+
+      // Step 4: Network Switching - Auto switch/add the preferred network if needed
+      if (!isSupportedChain(chainId)) {
+        const preferred = getPreferredNetwork()
+        try {
+          await switchToNetwork(preferred)
+          // Verify the switch was successful
+          chainId = await getCurrentChainId()
+          if (chainId !== preferred.chainId) {
+            throw new Error(`Failed to switch to ${preferred.name}`)
+          }
+        } catch (switchError: any) {
+          const errorMessage = `Please manually switch to ${preferred.name}`
+          toast.error(errorMessage)
+          dispatch({ type: 'SET_WALLET', payload: { isConnecting: false, error: errorMessage } })
+          return
+        }
+      }
+      const network = getNetworkConfig(chainId)!
+
+      // Step 5: Provider Setup - Create ethers.js BrowserProvider and signer
+      const provider = getProvider()
+      if (!provider) {
+        throw new Error('Failed to get provider')
+      }
+      const signer = await provider.getSigner()
+
+      // Step 6: Contract Initialization - Create the contract instance for this network
+      await initializeContract(signer, network)
+
+      // Step 7: State Update - Update React state with account and contract
+      dispatch({
+        type: 'SET_WALLET',
+        payload: {
+          account,
+          chainId,
+          isConnected: true,
+          isConnecting: false,
+          error: null,
+        },
+      })
+
+      // Get initial state - fetch balance
+      try {
+        const balance = await getBalance(account)
+        dispatch({ type: 'SET_WALLET', payload: { balance } })
+      } catch (balanceError) {
+        console.warn('Failed to fetch balance:', balanceError)
+      }
+
+      // Success handling
+      toast.success(`Connected to ${network.name}! ✅`)
+      
+      // Save to local storage
+      savePreferredNetwork(chainId)
+      setPreferredChainId(chainId)
+      localStorage.setItem(STORAGE_KEYS.LAST_CONNECTED_ACCOUNT, account)
+      localStorage.setItem(STORAGE_KEYS.LAST_WALLET_RDNS, selected.info.rdns)
+      
+    } catch (error: any) {
+      const web3Error = error instanceof Web3Error ? error : handleMetaMaskError(error)
+      
+      dispatch({
+        type: 'SET_WALLET',
+        payload: {
+          isConnecting: false,
+          error: web3Error.message,
+        },
+      })
+      
+      toast.error(web3Error.message)
+    }
+  }, [getWalletBalance, initializeContract])
+
+  // Disconnect wallet
+  const disconnectWallet = useCallback((): void => {
+    dispatch({ type: 'RESET_WALLET' })
+    setActiveProvider(null)
+    setActiveWallet(null)
+    localStorage.removeItem(STORAGE_KEYS.LAST_CONNECTED_ACCOUNT)
+    toast.success('Wallet disconnected')
+    initializeReadOnlyContract()
+  }, [initializeReadOnlyContract])
+
+  // Refresh wallet information
+  const refreshWallet = useCallback(async (): Promise<void> => {
+    if (!state.wallet.isConnected || !state.wallet.account) {
+      return
+    }
+
+    try {
+      // Refresh balance
+      const balance = await getBalance(state.wallet.account)
+      dispatch({ type: 'SET_WALLET', payload: { balance } })
+      
+      // Reinitialize contract for the wallet's current network
+      const provider = getProvider()
+      const network = getNetworkConfig(await getCurrentChainId())
+      if (provider && network) {
+        const signer = await provider.getSigner()
+        await initializeContract(signer, network)
+      }
+    } catch (error: any) {
+      console.error('Failed to refresh wallet information:', error)
+    }
+  }, [state.wallet.isConnected, state.wallet.account, getWalletBalance, initializeContract])
+
+  // Listen for account changes on the selected wallet
+  useEffect(() => {
+    if (!activeWallet) return
+    const provider: EIP1193Provider = activeWallet.provider
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        disconnectWallet()
+      } else if (accounts[0] !== state.wallet.account) {
+        // Account changed, reconnect to the same wallet; roles cached for it may be stale
+        queryClient.invalidateQueries({ queryKey: governanceKeys.roles(state.contract.chainId, state.contract.contract?.address, accounts[0]) })
+        connectWallet(activeWallet.info.rdns)
+      }
+    }
+
+    const handleChainChanged = (chainId: string) => {
+      const newChainId = parseInt(chainId, 16)
+      if (!isSupportedChain(newChainId) && state.wallet.isConnected) {
+        toast.error('Please switch to a supported network')
+        dispatch({
+          type: 'SET_WALLET',
+          payload: { chainId: newChainId, error: 'Network mismatch' },
+        })
+        // Keep showing data from the preferred network meanwhile
+        initializeReadOnlyContract()
+      } else if (isSupportedChain(newChainId)) {
+        dispatch({
+          type: 'SET_WALLET',
+          payload: { chainId: newChainId, error: null },
+        })
+        savePreferredNetwork(newChainId)
+        setPreferredChainId(newChainId)
+        refreshWallet()
+      }
+    }
+
+    const handleDisconnect = () => {
+      disconnectWallet()
+    }
+
+    // Add event listeners
+    provider.on('accountsChanged', handleAccountsChanged)
+    provider.on('chainChanged', handleChainChanged)
+    provider.on('disconnect', handleDisconnect)
+
+    // Cleanup function
+    return () => {
+      provider.removeListener('accountsChanged', handleAccountsChanged)
+      provider.removeListener('chainChanged', handleChainChanged)
+      provider.removeListener('disconnect', handleDisconnect)
+    }
+  }, [activeWallet, state.wallet.account, state.wallet.isConnected, state.contract, queryClient, connectWallet, disconnectWallet, refreshWallet, initializeReadOnlyContract])
+
+  // Start in read-only mode; connecting a wallet replaces the contract with a signer-backed one
+  useEffect(() => {
+    initializeReadOnlyContract()
+    // Keep following transactions that were in flight when the page was last closed
+    resumeTransactions()
+  }, []) // Only execute when component mounts
+
+  // Restore the previous session without prompting; the interactive flow is
+  // only needed again once the site's permission has been revoked
+  const restoreSession = useCallback(async (): Promise<void> => {
+    const lastAccount = localStorage.getItem(STORAGE_KEYS.LAST_CONNECTED_ACCOUNT)
+    const lastWalletRdns = localStorage.getItem(STORAGE_KEYS.LAST_WALLET_RDNS)
+    if (!lastAccount || !lastWalletRdns) {
+      dispatch({ type: 'SET_WALLET', payload: { isRestoring: false } })
+      return
+    }
+
+    try {
+      const lastWallet = await waitForWallet(lastWalletRdns)
+      if (!lastWallet) return
+
+      // eth_accounts never prompts; it only lists accounts the site is still authorized for
+      const accounts = await lastWallet.provider.request({ method: 'eth_accounts' }) as string[]
+      const account = accounts.find((a) => a.toLowerCase() === lastAccount.toLowerCase())
+      if (!account) {
+        localStorage.removeItem(STORAGE_KEYS.LAST_CONNECTED_ACCOUNT)
+        return
+      }
+
+      setActiveProvider(lastWallet.provider)
+      setActiveWallet(lastWallet)
+
+      // Switching networks would prompt, so an unsupported chain keeps the read-only
+      // contract until the wallet reports a supported one
+      const chainId = await getCurrentChainId()
+      const network = getNetworkConfig(chainId)
+      if (network) {
+        const signer = await getProvider()!.getSigner(account)
+        await initializeContract(signer, network)
+        savePreferredNetwork(chainId)
+        setPreferredChainId(chainId)
+      } else {
+        toast.error('Please switch to a supported network')
+      }
+
+      dispatch({
+        type: 'SET_WALLET',
+        payload: {
+          account,
+          chainId,
+          isConnected: true,
+          error: network ? null : 'Network mismatch',
+        },
+      })
+
+      try {
+        const balance = await getBalance(account)
+        dispatch({ type: 'SET_WALLET', payload: { balance } })
+      } catch (balanceError) {
+        console.warn('Failed to fetch balance:', balanceError)
+      }
+    } catch (error) {
+      console.warn('Session restore failed:', error)
+    } finally {
+      dispatch({ type: 'SET_WALLET', payload: { isRestoring: false } })
+    }
+  }, [initializeContract])
+
+  useEffect(() => {
+    restoreSession()
+  }, []) // Only execute when component mounts
+
+  // Switch the wallet to another supported network, or the read-only contract when no wallet is connected
+  const switchNetwork = useCallback(async (chainId: number): Promise<void> => {
+    const network = getNetworkConfig(chainId)
+    if (!network) {
+      toast.error('Unsupported network')
+      return
+    }
+
+    savePreferredNetwork(chainId)
+    setPreferredChainId(chainId)
+
+    if (!state.wallet.isConnected) {
+      await initializeReadOnlyContract(network)
+      return
+    }
+
+    try {
+      // The chainChanged listener reinitializes the contract once the wallet switches
+      await switchToNetwork(network)
+    } catch (error: any) {
+      const web3Error = error instanceof Web3Error ? error : handleMetaMaskError(error)
+      toast.error(web3Error.message)
+    }
+  }, [state.wallet.isConnected, initializeReadOnlyContract])
+
+  const adapter = state.contract.contract
+  const contractNetwork = getNetworkConfig(state.contract.chainId)
+
+  // Deadlines are compared against the contract's chain clock, which time travel moves on the simulated chain
+  useEffect(() => {
+    if (contractNetwork?.chainId !== SIMULATED_CONFIG.chainId) {
+      setChainClockOffset(0)
+      return
+    }
+    const sync = () => setChainClockOffset(getSimulatedChainSnapshot().timeOffset)
+    sync()
+    return subscribeToSimulatedChain(sync)
+  }, [contractNetwork?.chainId])
+
+  // The feed belongs to one deployment; a wallet connecting to the same one keeps it
+  useEffect(() => {
+    setActivity([])
+  }, [adapter?.address, contractNetwork?.chainId])
+
+  // Follow the contract's events so other accounts' votes, proposals and registrations
+  // refresh the affected queries as they land
+  useEffect(() => {
+    if (!adapter || !contractNetwork) return
+
+    const { chainId } = contractNetwork
+    const { address } = adapter
+    const provider = getEventProvider(contractNetwork)
+    const filter = { address, topics: [adapter.eventTopics] }
+    const invalidate = (queryKey: readonly unknown[]) => queryClient.invalidateQueries({ queryKey })
+
+    const handleLog = (log: ethers.Log) => {
+      const event = adapter.decodeLog(log)
+      if (!event) return
+
+      switch (event.name) {
+        case 'VoteAdd':
+          invalidate(governanceKeys.proposal(chainId, address, event.proposalId))
+          invalidate(governanceKeys.proposals(chainId, address))
+          invalidate(governanceKeys.votedStatus(chainId, address, event.voter))
+          break
+        case 'ProposalAdd':
+          invalidate(governanceKeys.company(chainId, address))
+          invalidate(governanceKeys.proposals(chainId, address))
+          invalidate(governanceKeys.proposal(chainId, address, event.proposalId))
+          break
+        case 'ShareholderAdd':
+          invalidate(governanceKeys.shareholder(chainId, address, event.shareholder))
+          invalidate(governanceKeys.roles(chainId, address, event.shareholder))
+          invalidate(governanceKeys.company(chainId, address))
+          break
+        case 'CompanyInit':
+          invalidate(governanceKeys.company(chainId, address))
+          break
+      }
+
+      const item = toActivity(event)
+      if (item) {
+        setActivity((current) => current.some((a) => a.id === item.id)
+          ? current
+          : [item, ...current].slice(0, ACTIVITY_CONFIG.MAX_ITEMS))
+      }
+    }
+
+    provider.on(filter, handleLog)
+    return () => {
+      provider.off(filter, handleLog)
+    }
+  }, [adapter, contractNetwork, queryClient])
+
+  const account = state.wallet.account
+  const rolesQuery = useQuery({
+    queryKey: governanceKeys.roles(state.contract.chainId, adapter?.address, account),
+    queryFn: () => fetchAccountRoles(adapter!, account!),
+    enabled: !!adapter && !!account,
+  })
+  const roles = (account && rolesQuery.data) || NO_ROLES
+
+  const hasRole = useCallback((role: AccountRole): boolean => {
+    switch (role) {
+      case 'owner':
+        return roles.isOwner
+      case 'board':
+        return roles.isBoardMember
+      case 'shareholder':
+        return roles.isShareholder
+    }
+  }, [roles])
+
+  const refreshRoles = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: governanceKeys.roles(state.contract.chainId, adapter?.address, account) })
+  }, [queryClient, state.contract.chainId, adapter?.address, account])
+
+  const network =
+    (state.wallet.isConnected && getNetworkConfig(state.wallet.chainId)) ||
+    getNetworkConfig(preferredChainId) ||
+    DEFAULT_NETWORK
+
+  // Context value
+  const contextValue: Web3ProviderContext = {
+    wallet: state.wallet,
+    contract: state.contract,
+    network,
+    supportedNetworks: Object.values(SUPPORTED_NETWORKS),
+    wallets,
+    activeWallet: activeWallet?.info ?? null,
+    isWalletPickerOpen,
+    openWalletPicker: () => setIsWalletPickerOpen(true),
+    closeWalletPicker: () => setIsWalletPickerOpen(false),
+    connectWallet,
+    disconnectWallet,
+    switchNetwork,
+    getBalance: getWalletBalance,
+    refreshWallet,
+    activity,
+    eventTransport: contractNetwork && adapter ? (contractNetwork.wsUrl ? 'websocket' : 'polling') : null,
+    roles,
+    rolesLoading: !!account && !!adapter && rolesQuery.isLoading,
+    hasRole,
+    refreshRoles,
+  }
+
+  return <Web3Context.Provider value={contextValue}>{children}</Web3Context.Provider>
+}
+
+// Hook using Context
+export const useWeb3 = (): Web3ProviderContext => {
+  const context = useContext(Web3Context)
+  if (!context) {
+    throw new Error('useWeb3 must be used within a Web3Provider')
+  }
+  return context
+}
+
+// Extend window type to support ethereum
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider
+  }
 }
\ No newline at end of file
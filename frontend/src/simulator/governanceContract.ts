@@ -0,0 +1,310 @@
+import { ethers } from 'ethers'
+import { GOVERNANCE_INTERFACE } from '@/contracts/governanceClient'
+
+// CorporateGovernanceUltimate re-implemented over plain JSON state, so the simulated chain
+// can run it without an EVM. Calldata, return data, revert data and events are encoded
+// with the contract's own ABI; the Solidity source is the reference for every rule below.
+
+interface ShareholderSlot {
+  active: boolean
+  shares: number
+  name: string
+}
+
+interface ProposalSlot {
+  pType: number
+  title: string
+  proposer: string
+  deadline: number
+  active: boolean
+  forVotes: number
+  againstVotes: number
+  threshold: number
+}
+
+// Mapping keys are lower-case addresses
+export interface GovernanceStorage {
+  owner: string
+  companyName: string
+  totalShares: string
+  initialized: boolean
+  shareholders: Record<string, ShareholderSlot>
+  boardMembers: Record<string, boolean>
+  // `${proposalId}:${voter}`
+  voted: Record<string, boolean>
+  proposals: ProposalSlot[]
+  boardList: string[]
+}
+
+export interface ExecutionContext {
+  sender: string
+  timestamp: number
+}
+
+export interface EncodedLog {
+  topics: string[]
+  data: string
+}
+
+export interface ExecutionResult {
+  storage: GovernanceStorage
+  returnData: string
+  logs: EncodedLog[]
+}
+
+// Revert with the ABI-encoded reason, as a node reports it
+export class ContractRevert extends Error {
+  constructor(message: string, public data: string) {
+    super(message)
+    this.name = 'ContractRevert'
+  }
+}
+
+const UINT32_MAX = 0xffffffff
+const DAY = 24 * 60 * 60
+
+const revert = (reason: string): never => {
+  throw new ContractRevert(`execution reverted: ${reason}`, GOVERNANCE_INTERFACE.encodeErrorResult('Error', [reason]))
+}
+
+const panic = (code: number): never => {
+  throw new ContractRevert('execution reverted (panic)', GOVERNANCE_INTERFACE.encodeErrorResult('Panic', [code]))
+}
+
+const ensure = (condition: boolean, reason: string) => {
+  if (!condition) revert(reason)
+}
+
+const checkedAdd32 = (a: number, b: number): number => (a + b > UINT32_MAX ? panic(0x11) : a + b)
+
+const key = (address: string) => address.toLowerCase()
+
+// Deployment: the constructor makes the deployer owner and first board member
+export const deployGovernance = (deployer: string): { storage: GovernanceStorage; logs: EncodedLog[] } => ({
+  storage: {
+    owner: ethers.getAddress(deployer),
+    companyName: '',
+    totalShares: '0',
+    initialized: false,
+    shareholders: {},
+    boardMembers: { [key(deployer)]: true },
+    voted: {},
+    proposals: [],
+    boardList: [ethers.getAddress(deployer)],
+  },
+  logs: [GOVERNANCE_INTERFACE.encodeEventLog('OwnershipTransferred', [ethers.ZeroAddress, deployer])],
+})
+
+// Run one call against a copy of the storage; the caller keeps the copy only if nothing reverts
+export const executeGovernance = (
+  current: GovernanceStorage,
+  { sender, timestamp }: ExecutionContext,
+  data: string
+): ExecutionResult => {
+  let parsed: ethers.TransactionDescription | null = null
+  try {
+    parsed = GOVERNANCE_INTERFACE.parseTransaction({ data })
+  } catch {
+    parsed = null
+  }
+  // No fallback function: unknown selectors revert without data
+  if (!parsed) throw new ContractRevert('execution reverted', '0x')
+
+  const storage: GovernanceStorage = structuredClone(current)
+  const logs: EncodedLog[] = []
+  const args = parsed.args
+  const emit = (event: string, values: unknown[]) => logs.push(GOVERNANCE_INTERFACE.encodeEventLog(event, values))
+  const result = (values: unknown[]): ExecutionResult => ({
+    storage,
+    returnData: GOVERNANCE_INTERFACE.encodeFunctionResult(parsed!.fragment, values),
+    logs,
+  })
+
+  const onlyOwner = () => {
+    if (key(sender) !== key(storage.owner)) {
+      throw new ContractRevert(
+        'execution reverted: OwnableUnauthorizedAccount',
+        GOVERNANCE_INTERFACE.encodeErrorResult('OwnableUnauthorizedAccount', [sender])
+      )
+    }
+  }
+  const onlyBoard = () => ensure(!!storage.boardMembers[key(sender)], 'Board only')
+  const onlySharehol = () => ensure(!!storage.shareholders[key(sender)]?.active, 'Shareholder only')
+
+  const getProposal = (id: bigint): ProposalSlot => {
+    ensure(id > 0n && id <= BigInt(storage.proposals.length), 'Invalid ID')
+    return storage.proposals[Number(id) - 1]
+  }
+  const shareholder = (address: string): ShareholderSlot =>
+    storage.shareholders[key(address)] ?? { active: false, shares: 0, name: '' }
+
+  const registerShareholder = (address: string, shares: bigint, name: string) => {
+    onlyBoard()
+    storage.shareholders[key(address)] = { active: true, shares: Number(shares), name }
+    emit('ShareholderAdd', [address])
+  }
+
+  const vote = (id: bigint, choice: bigint) => {
+    onlySharehol()
+    ensure(id > 0n && id <= BigInt(storage.proposals.length), 'Invalid ID')
+    ensure(!storage.voted[`${id}:${key(sender)}`], 'Already voted')
+
+    const p = storage.proposals[Number(id) - 1]
+    ensure(p.active && timestamp <= p.deadline, 'Cannot vote')
+
+    storage.voted[`${id}:${key(sender)}`] = true
+    const shares = shareholder(sender).shares
+    if (choice === 1n) p.forVotes = checkedAdd32(p.forVotes, shares)
+    else if (choice === 2n) p.againstVotes = checkedAdd32(p.againstVotes, shares)
+
+    emit('VoteAdd', [id, sender])
+  }
+
+  const finalize = (id: bigint) => {
+    onlyBoard()
+    const p = getProposal(id)
+    ensure(p.active && timestamp > p.deadline, 'Cannot finalize')
+    p.active = false
+  }
+
+  const getResults = (id: bigint): [number, number, boolean] => {
+    onlyBoard()
+    const p = getProposal(id)
+    ensure(!p.active, 'Still active')
+
+    const total = p.forVotes + p.againstVotes
+    const passed = total > 0 && Math.floor((p.forVotes * 100) / total) > p.threshold
+    return [p.forVotes, p.againstVotes, passed]
+  }
+
+  switch (parsed.name) {
+    // Ownable
+    case 'owner':
+      return result([storage.owner])
+    case 'transferOwnership': {
+      onlyOwner()
+      const newOwner: string = args[0]
+      if (newOwner === ethers.ZeroAddress) {
+        throw new ContractRevert(
+          'execution reverted: OwnableInvalidOwner',
+          GOVERNANCE_INTERFACE.encodeErrorResult('OwnableInvalidOwner', [newOwner])
+        )
+      }
+      emit('OwnershipTransferred', [storage.owner, newOwner])
+      storage.owner = newOwner
+      return result([])
+    }
+    case 'renounceOwnership':
+      onlyOwner()
+      emit('OwnershipTransferred', [storage.owner, ethers.ZeroAddress])
+      storage.owner = ethers.ZeroAddress
+      return result([])
+
+    // Company and board
+    case 'initCompany':
+      onlyOwner()
+      ensure(!storage.initialized, 'Done')
+      storage.companyName = args[0]
+      storage.totalShares = args[1].toString()
+      storage.initialized = true
+      emit('CompanyInit', [args[0]])
+      return result([])
+    case 'addBoard':
+      onlyOwner()
+      storage.boardMembers[key(args[0])] = true
+      storage.boardList.push(args[0])
+      return result([])
+    case 'addShareholder':
+      registerShareholder(args[0], args[1], args[2])
+      return result([])
+    case 'registerShareholderPlain':
+      registerShareholder(args[0], args[1], args[3])
+      return result([])
+
+    // Proposals
+    case 'createProposal': {
+      onlyBoard()
+      const id = storage.proposals.length + 1
+      const pType = Number(args[0])
+      storage.proposals.push({
+        pType,
+        title: args[1],
+        proposer: ethers.getAddress(sender),
+        deadline: timestamp + Number(args[2]) * DAY,
+        active: true,
+        forVotes: 0,
+        againstVotes: 0,
+        threshold: pType === 2 ? 75 : pType === 1 ? 60 : 50,
+      })
+      emit('ProposalAdd', [id])
+      return result([id])
+    }
+    case 'vote':
+    case 'voteConfidential':
+    case 'castVotePlain':
+    case 'castConfidentialVote':
+      vote(args[0], args[1])
+      return result([])
+    case 'finalize':
+    case 'finalizeProposal':
+      finalize(args[0])
+      return result([])
+
+    // Views
+    case 'companyName':
+      return result([storage.companyName])
+    case 'totalShares':
+      return result([storage.totalShares])
+    case 'initialized':
+      return result([storage.initialized])
+    case 'boardMembers':
+    case 'isBoardMember':
+      return result([!!storage.boardMembers[key(args[0])]])
+    case 'boardList': {
+      const index = Number(args[0])
+      return index < storage.boardList.length ? result([storage.boardList[index]]) : panic(0x32)
+    }
+    case 'shareholders': {
+      const s = shareholder(args[0])
+      return result([s.active, s.shares, s.name])
+    }
+    case 'getShareholderInfo': {
+      const s = shareholder(args[0])
+      return result([s.active, s.shares, '', s.name, s.active])
+    }
+    case 'voted':
+    case 'hasVotedOn':
+      return result([!!storage.voted[`${args[0]}:${key(args[1])}`]])
+    case 'proposals': {
+      const index = Number(args[0])
+      if (index >= storage.proposals.length) return panic(0x32)
+      const p = storage.proposals[index]
+      return result([p.pType, p.title, p.proposer, p.deadline, p.active, p.forVotes, p.againstVotes, p.threshold])
+    }
+    case 'getTotalProposals':
+      return result([storage.proposals.length])
+    case 'getProposalBasic': {
+      const p = getProposal(args[0])
+      return result([p.pType, p.title, p.proposer])
+    }
+    case 'getProposalStatus': {
+      const p = getProposal(args[0])
+      return result([p.deadline, p.active, p.threshold])
+    }
+    case 'getProposalInfo': {
+      const p = getProposal(args[0])
+      return result([args[0], p.pType, p.title, '', p.proposer, 0, p.deadline, p.active, !p.active, 0, p.threshold])
+    }
+    case 'getResults':
+      return result(getResults(args[0]))
+    case 'getDecryptedResults': {
+      const [forVotes, againstVotes, passed] = getResults(args[0])
+      return result([forVotes, againstVotes, 0, passed])
+    }
+    case 'getCompanyInfo':
+      return result([storage.companyName, 'CORP', '', storage.totalShares, 0, storage.boardList])
+
+    default:
+      throw new ContractRevert('execution reverted', '0x')
+  }
+}
\ No newline at end of file
@@ -0,0 +1,464 @@
+import { ethers } from 'ethers'
+import UltimateArtifact from '@artifacts/contracts/CorporateGovernanceUltimate.sol/CorporateGovernanceUltimate.json'
+import { GOVERNANCE_INTERFACE } from '@/contracts/governanceClient'
+import { SIMULATED_CONFIG, STORAGE_KEYS } from '@/utils/constants'
+import {
+  ContractRevert,
+  EncodedLog,
+  GovernanceStorage,
+  deployGovernance,
+  executeGovernance,
+} from './governanceContract'
+
+// An in-memory chain with CorporateGovernanceUltimate deployed at SIMULATED_CONFIG.contractAddress.
+// It answers the JSON-RPC methods ethers and the app use, mines one block per transaction,
+// and keeps its state in localStorage so reloads and the transaction tray carry on as usual.
+
+export interface SimulatedAccount {
+  address: string
+  label: string
+}
+
+// Hardhat's well-known development accounts. The first deploys the contract.
+export const SIMULATED_ACCOUNTS: SimulatedAccount[] = [
+  { address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266', label: 'Owner' },
+  { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', label: 'Board Member' },
+  { address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', label: 'Alice' },
+  { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906', label: 'Bob' },
+  { address: '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65', label: 'Carol' },
+  { address: '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc', label: 'Visitor' },
+]
+
+interface SimulatedLog extends EncodedLog {
+  address: string
+  logIndex: number
+}
+
+interface SimulatedTransaction {
+  hash: string
+  from: string
+  to: string
+  input: string
+  nonce: number
+  gas: string
+  blockNumber: number
+  status: 0 | 1
+  logs: SimulatedLog[]
+}
+
+interface SimulatedBlock {
+  number: number
+  hash: string
+  parentHash: string
+  timestamp: number
+  transactions: string[]
+}
+
+interface ChainState {
+  // Seconds added to the wall clock by time travel
+  timeOffset: number
+  selectedAccount: number
+  blocks: SimulatedBlock[]
+  transactions: Record<string, SimulatedTransaction>
+  nonces: Record<string, number>
+  governance: GovernanceStorage
+}
+
+export interface SimulatedChainSnapshot {
+  blockNumber: number
+  // Seconds the chain clock runs ahead of the wall clock
+  timeOffset: number
+  account: SimulatedAccount
+}
+
+// JSON-RPC error as a node returns it; code 3 carries revert data
+export class SimulatedRpcError extends Error {
+  constructor(message: string, public code: number, public data?: string) {
+    super(message)
+    this.name = 'SimulatedRpcError'
+  }
+}
+
+const CONTRACT_ADDRESS = SIMULATED_CONFIG.contractAddress
+const GAS_PRICE = 1_000_000_000n
+const BLOCK_GAS_LIMIT = 30_000_000n
+const BALANCE = ethers.parseEther('10000')
+const EMPTY_BLOOM = `0x${'00'.repeat(256)}`
+
+const wallClock = () => Math.floor(Date.now() / 1000)
+const quantity = (value: number | bigint) => ethers.toQuantity(value)
+const sameAddress = (a?: string | null, b?: string | null) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+let state: ChainState
+let snapshot: SimulatedChainSnapshot
+const listeners = new Set<() => void>()
+
+const latestBlock = (): SimulatedBlock => state.blocks[state.blocks.length - 1]
+
+// The next block is never older than the last one
+const pendingTimestamp = () => Math.max(latestBlock().timestamp + 1, wallClock() + state.timeOffset)
+
+const commit = () => {
+  localStorage.setItem(STORAGE_KEYS.SIMULATED_CHAIN, JSON.stringify(state))
+  snapshot = {
+    blockNumber: latestBlock().number,
+    timeOffset: state.timeOffset,
+    account: SIMULATED_ACCOUNTS[state.selectedAccount],
+  }
+  listeners.forEach((listener) => listener())
+}
+
+const mineBlock = (transactions: SimulatedTransaction[], timestamp = pendingTimestamp()): SimulatedBlock => {
+  const parent = state.blocks.length > 0 ? latestBlock() : null
+  const number = parent ? parent.number + 1 : 0
+  const block: SimulatedBlock = {
+    number,
+    hash: ethers.id(`block:${number}:${timestamp}`),
+    parentHash: parent?.hash ?? ethers.ZeroHash,
+    timestamp,
+    transactions: transactions.map((tx) => tx.hash),
+  }
+  transactions.forEach((tx) => {
+    tx.blockNumber = number
+    state.transactions[tx.hash] = tx
+  })
+  state.blocks.push(block)
+  return block
+}
+
+const toSimulatedLogs = (logs: EncodedLog[]): SimulatedLog[] =>
+  logs.map((log, logIndex) => ({ ...log, address: CONTRACT_ADDRESS, logIndex }))
+
+// Execute against the current state; reverts leave it untouched
+const runCall = (from: string, to: string | null | undefined, data: string, timestamp: number) => {
+  if (!sameAddress(to, CONTRACT_ADDRESS)) {
+    return { returnData: '0x', logs: [] as EncodedLog[], storage: state.governance }
+  }
+  return executeGovernance(state.governance, { sender: from, timestamp }, data)
+}
+
+const toRpcError = (error: unknown): SimulatedRpcError =>
+  error instanceof ContractRevert
+    ? new SimulatedRpcError(error.message, 3, error.data)
+    : new SimulatedRpcError(error instanceof Error ? error.message : String(error), -32603)
+
+// Mine a transaction in its own block; a revert is mined with status 0
+const sendTransaction = (from: string, to: string, data: string, gas: bigint): string => {
+  const sender = ethers.getAddress(from)
+  const nonce = state.nonces[sender.toLowerCase()] ?? 0
+  const timestamp = pendingTimestamp()
+  const hash = ethers.id(`tx:${SIMULATED_CONFIG.chainId}:${sender}:${nonce}`)
+
+  let status: 0 | 1 = 1
+  let logs: SimulatedLog[] = []
+  try {
+    const result = runCall(sender, to, data, timestamp)
+    state.governance = result.storage
+    logs = toSimulatedLogs(result.logs)
+  } catch (error) {
+    if (!(error instanceof ContractRevert)) throw toRpcError(error)
+    status = 0
+  }
+
+  state.nonces[sender.toLowerCase()] = nonce + 1
+  mineBlock([{ hash, from: sender, to: ethers.getAddress(to), input: data, nonce, gas: quantity(gas), blockNumber: 0, status, logs }], timestamp)
+  commit()
+  return hash
+}
+
+const createGenesis = (): ChainState => {
+  const [owner, board, alice, bob, carol] = SIMULATED_ACCOUNTS.map((account) => account.address)
+  const deployment = deployGovernance(owner)
+  state = {
+    timeOffset: 0,
+    selectedAccount: 0,
+    blocks: [],
+    transactions: {},
+    nonces: {},
+    governance: deployment.storage,
+  }
+
+  const deployTx: SimulatedTransaction = {
+    hash: ethers.id(`deploy:${SIMULATED_CONFIG.chainId}:${owner}`),
+    from: owner,
+    to: CONTRACT_ADDRESS,
+    input: '0x',
+    nonce: 0,
+    gas: quantity(3_000_000),
+    blockNumber: 0,
+    status: 1,
+    logs: toSimulatedLogs(deployment.logs),
+  }
+  state.nonces[owner.toLowerCase()] = 1
+  mineBlock([deployTx], wallClock())
+
+  // A company with a board, registered shareholders and one open proposal
+  const seed: Array<[string, string, unknown[]]> = [
+    [owner, 'initCompany', ['Simulated Corp', 10_000]],
+    [owner, 'addBoard', [board]],
+    [owner, 'addShareholder', [owner, 3_000, 'Owner']],
+    [board, 'addShareholder', [board, 2_000, 'Board Member']],
+    [board, 'addShareholder', [alice, 2_500, 'Alice']],
+    [board, 'addShareholder', [bob, 1_500, 'Bob']],
+    [board, 'addShareholder', [carol, 1_000, 'Carol']],
+    [board, 'createProposal', [1, 'Approve the annual operating budget', 7]],
+  ]
+  seed.forEach(([from, method, args]) => {
+    sendTransaction(from, CONTRACT_ADDRESS, GOVERNANCE_INTERFACE.encodeFunctionData(method, args), 500_000n)
+  })
+  return state
+}
+
+const loadState = (): ChainState | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SIMULATED_CHAIN)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+const ensureState = () => {
+  if (state) return
+  const stored = loadState()
+  if (stored) {
+    state = stored
+    commit()
+  } else {
+    createGenesis()
+  }
+}
+
+// Formatting, in the shapes ethers expects from a node
+
+const formatLog = (log: SimulatedLog, tx: SimulatedTransaction, block: SimulatedBlock) => ({
+  address: log.address,
+  topics: log.topics,
+  data: log.data,
+  blockNumber: quantity(block.number),
+  blockHash: block.hash,
+  transactionHash: tx.hash,
+  transactionIndex: quantity(block.transactions.indexOf(tx.hash)),
+  logIndex: quantity(log.logIndex),
+  removed: false,
+})
+
+const formatTransaction = (tx: SimulatedTransaction) => {
+  const block = state.blocks[tx.blockNumber]
+  return {
+    hash: tx.hash,
+    type: '0x2',
+    chainId: quantity(SIMULATED_CONFIG.chainId),
+    nonce: quantity(tx.nonce),
+    blockHash: block.hash,
+    blockNumber: quantity(block.number),
+    transactionIndex: quantity(block.transactions.indexOf(tx.hash)),
+    from: tx.from,
+    to: tx.to,
+    value: '0x0',
+    gas: tx.gas,
+    gasPrice: quantity(GAS_PRICE),
+    maxFeePerGas: quantity(GAS_PRICE),
+    maxPriorityFeePerGas: quantity(GAS_PRICE),
+    input: tx.input,
+    accessList: [],
+    // Placeholder signature; nothing is signed on the simulated chain
+    v: '0x0',
+    r: ethers.id(`r:${tx.hash}`),
+    s: ethers.id(`s:${tx.hash}`).replace(/^0x./, '0x1'),
+  }
+}
+
+const formatReceipt = (tx: SimulatedTransaction) => {
+  const block = state.blocks[tx.blockNumber]
+  return {
+    transactionHash: tx.hash,
+    transactionIndex: quantity(block.transactions.indexOf(tx.hash)),
+    blockHash: block.hash,
+    blockNumber: quantity(block.number),
+    from: tx.from,
+    to: tx.to,
+    contractAddress: null,
+    cumulativeGasUsed: tx.gas,
+    gasUsed: tx.gas,
+    effectiveGasPrice: quantity(GAS_PRICE),
+    logs: tx.logs.map((log) => formatLog(log, tx, block)),
+    logsBloom: EMPTY_BLOOM,
+    status: quantity(tx.status),
+    type: '0x2',
+  }
+}
+
+const formatBlock = (block: SimulatedBlock, fullTransactions: boolean) => ({
+  number: quantity(block.number),
+  hash: block.hash,
+  parentHash: block.parentHash,
+  timestamp: quantity(block.timestamp),
+  nonce: '0x0000000000000000',
+  difficulty: '0x0',
+  gasLimit: quantity(BLOCK_GAS_LIMIT),
+  gasUsed: '0x0',
+  miner: ethers.ZeroAddress,
+  extraData: '0x',
+  baseFeePerGas: quantity(GAS_PRICE),
+  transactions: fullTransactions
+    ? block.transactions.map((hash) => formatTransaction(state.transactions[hash]))
+    : block.transactions,
+})
+
+const resolveBlockTag = (tag: string | undefined): number => {
+  if (!tag || ['latest', 'pending', 'safe', 'finalized'].includes(tag)) return latestBlock().number
+  if (tag === 'earliest') return 0
+  return Number(tag)
+}
+
+interface LogFilter {
+  fromBlock?: string
+  toBlock?: string
+  blockHash?: string
+  address?: string | string[]
+  topics?: Array<string | string[] | null>
+}
+
+const getLogs = (filter: LogFilter) => {
+  const blocks = filter.blockHash
+    ? state.blocks.filter((block) => block.hash === filter.blockHash)
+    : state.blocks.slice(resolveBlockTag(filter.fromBlock ?? 'latest'), resolveBlockTag(filter.toBlock) + 1)
+  const addresses = filter.address ? [filter.address].flat() : null
+  const topicsMatch = (topics: string[]) => (filter.topics ?? []).every((expected, index) =>
+    expected === null || [expected].flat().some((topic) => topic.toLowerCase() === topics[index]?.toLowerCase()))
+
+  return blocks.flatMap((block) => block.transactions.flatMap((hash) => {
+    const tx = state.transactions[hash]
+    return tx.logs
+      .filter((log) => (!addresses || addresses.some((address) => sameAddress(address, log.address))) && topicsMatch(log.topics))
+      .map((log) => formatLog(log, tx, block))
+  }))
+}
+
+interface CallRequest {
+  from?: string
+  to?: string
+  data?: string
+  input?: string
+  gas?: string
+}
+
+const estimateGas = (request: CallRequest): bigint => {
+  const data = request.data ?? request.input ?? '0x'
+  runCall(request.from ?? ethers.ZeroAddress, request.to, data, pendingTimestamp())
+  return 21_000n + 16n * BigInt(ethers.dataLength(data)) + 60_000n
+}
+
+// Answer one JSON-RPC request. Accounts and signing are left to the wallet.
+export const handleSimulatedRpc = (method: string, params: any[] = []): unknown => {
+  ensureState()
+
+  try {
+    switch (method) {
+      case 'eth_chainId':
+        return quantity(SIMULATED_CONFIG.chainId)
+      case 'net_version':
+        return String(SIMULATED_CONFIG.chainId)
+      case 'web3_clientVersion':
+        return 'SimulatedChain/1.0'
+      case 'eth_blockNumber':
+        return quantity(latestBlock().number)
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return quantity(GAS_PRICE)
+      case 'eth_getBalance':
+        return quantity(BALANCE)
+      case 'eth_getTransactionCount':
+        return quantity(state.nonces[String(params[0]).toLowerCase()] ?? 0)
+      case 'eth_getCode':
+        return sameAddress(params[0], CONTRACT_ADDRESS) ? UltimateArtifact.deployedBytecode : '0x'
+      case 'eth_getBlockByNumber': {
+        const block = state.blocks[resolveBlockTag(params[0])]
+        return block ? formatBlock(block, !!params[1]) : null
+      }
+      case 'eth_getBlockByHash': {
+        const block = state.blocks.find((b) => b.hash === params[0])
+        return block ? formatBlock(block, !!params[1]) : null
+      }
+      case 'eth_getTransactionByHash': {
+        const tx = state.transactions[params[0]]
+        return tx ? formatTransaction(tx) : null
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = state.transactions[params[0]]
+        return tx ? formatReceipt(tx) : null
+      }
+      case 'eth_getLogs':
+        return getLogs(params[0] ?? {})
+      case 'eth_call': {
+        const request: CallRequest = params[0]
+        return runCall(request.from ?? ethers.ZeroAddress, request.to, request.data ?? request.input ?? '0x', pendingTimestamp()).returnData
+      }
+      case 'eth_estimateGas':
+        return quantity(estimateGas(params[0]))
+      default:
+        throw new SimulatedRpcError(`Method ${method} is not supported by the simulated chain`, -32601)
+    }
+  } catch (error) {
+    throw error instanceof SimulatedRpcError ? error : toRpcError(error)
+  }
+}
+
+// Mine a transaction from one of SIMULATED_ACCOUNTS
+export const sendSimulatedTransaction = (request: CallRequest): string => {
+  ensureState()
+  if (!SIMULATED_ACCOUNTS.some((account) => sameAddress(account.address, request.from))) {
+    throw new SimulatedRpcError('Unknown account', 4100)
+  }
+  if (!request.to) {
+    throw new SimulatedRpcError('Contract deployment is not supported by the simulated chain', -32601)
+  }
+
+  const data = request.data ?? request.input ?? '0x'
+  try {
+    return sendTransaction(request.from!, request.to, data, request.gas ? BigInt(request.gas) : estimateGas(request))
+  } catch (error) {
+    throw error instanceof SimulatedRpcError ? error : toRpcError(error)
+  }
+}
+
+// Time travel: move the clock forward and mine an empty block at the new time
+export const advanceSimulatedTime = (seconds: number) => {
+  ensureState()
+  state.timeOffset += seconds
+  mineBlock([])
+  commit()
+}
+
+export const getSimulatedAccount = (): SimulatedAccount => {
+  ensureState()
+  return SIMULATED_ACCOUNTS[state.selectedAccount]
+}
+
+export const selectSimulatedAccount = (address: string) => {
+  ensureState()
+  const index = SIMULATED_ACCOUNTS.findIndex((account) => sameAddress(account.address, address))
+  if (index === -1 || index === state.selectedAccount) return
+  state.selectedAccount = index
+  commit()
+}
+
+// Start over from the seeded genesis state
+export const resetSimulatedChain = () => {
+  createGenesis()
+  commit()
+}
+
+// Stable between changes, suitable for useSyncExternalStore
+export const getSimulatedChainSnapshot = (): SimulatedChainSnapshot => {
+  ensureState()
+  return snapshot
+}
+
+export const subscribeToSimulatedChain = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
\ No newline at end of file
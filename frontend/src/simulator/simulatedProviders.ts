@@ -0,0 +1,122 @@
+import { ethers } from 'ethers'
+import { EIP1193Provider, EIP6963ProviderDetail } from '@/types/web3'
+import { SIMULATED_CONFIG, TIME_CONSTANTS } from '@/utils/constants'
+import {
+  SimulatedRpcError,
+  getSimulatedAccount,
+  handleSimulatedRpc,
+  sendSimulatedTransaction,
+  subscribeToSimulatedChain,
+} from './simulatedChain'
+
+// EIP-1193 front ends for the simulated chain: a node for read-only access and a wallet
+// announced over EIP-6963, so the app reaches it through its usual provider code paths.
+
+type Listener = (...args: any[]) => void
+
+// Run a handler as an async request; errors keep their JSON-RPC code and data
+const respond = async (handler: () => unknown) => {
+  try {
+    return handler()
+  } catch (error) {
+    if (error instanceof SimulatedRpcError) {
+      throw Object.assign(new Error(error.message), { code: error.code, data: error.data })
+    }
+    throw error
+  }
+}
+
+const simulatedNode: EIP1193Provider = {
+  request: ({ method, params }) => respond(() => handleSimulatedRpc(method, params)),
+  // The node emits nothing; ethers polls it for new blocks
+  on: () => {},
+  removeListener: () => {},
+}
+
+export const createSimulatedReadProvider = (): ethers.BrowserProvider =>
+  new ethers.BrowserProvider(simulatedNode, SIMULATED_CONFIG.chainId, {
+    staticNetwork: true,
+    pollingInterval: TIME_CONSTANTS.POLLING_INTERVAL,
+  })
+
+const walletListeners = new Map<string, Set<Listener>>()
+let lastAccount: string | null = null
+
+const emitWallet = (event: string, ...args: unknown[]) => {
+  walletListeners.get(event)?.forEach((listener) => listener(...args))
+}
+
+const SIMULATED_CHAIN_HEX = ethers.toQuantity(SIMULATED_CONFIG.chainId)
+
+const handleWalletRequest = (method: string, params: any[] = []): unknown => {
+  switch (method) {
+    case 'eth_accounts':
+    case 'eth_requestAccounts':
+      return [getSimulatedAccount().address]
+    case 'eth_sendTransaction': {
+      const [request] = params
+      if (request?.from && request.from.toLowerCase() !== getSimulatedAccount().address.toLowerCase()) {
+        throw new SimulatedRpcError('The requested account is not selected in the simulated wallet', 4100)
+      }
+      return sendSimulatedTransaction({ ...request, from: getSimulatedAccount().address })
+    }
+    case 'wallet_switchEthereumChain':
+      if (params[0]?.chainId?.toLowerCase() !== SIMULATED_CHAIN_HEX) {
+        throw new SimulatedRpcError('The simulated wallet only knows the simulated chain', 4902)
+      }
+      return null
+    case 'wallet_addEthereumChain':
+    case 'personal_sign':
+    case 'eth_sign':
+    case 'eth_signTypedData_v4':
+      throw new SimulatedRpcError(`The simulated wallet does not support ${method}`, 4200)
+    default:
+      return handleSimulatedRpc(method, params)
+  }
+}
+
+const simulatedWallet: EIP1193Provider = {
+  request: ({ method, params }) => respond(() => handleWalletRequest(method, params)),
+  on: (event, listener) => {
+    const listeners = walletListeners.get(event) ?? new Set<Listener>()
+    listeners.add(listener)
+    walletListeners.set(event, listeners)
+  },
+  removeListener: (event, listener) => {
+    walletListeners.get(event)?.delete(listener)
+  },
+}
+
+const SIMULATED_WALLET: EIP6963ProviderDetail = {
+  info: {
+    uuid: '6f6e3c8a-5b1d-4c3e-9a47-2d1f0c9b8e71',
+    name: 'Simulated Wallet',
+    icon: `data:image/svg+xml,${encodeURIComponent(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="8" fill="#7c3aed"/><path d="M9 11h14v10H9z" fill="none" stroke="#fff" stroke-width="2"/><circle cx="19" cy="16" r="1.5" fill="#fff"/></svg>'
+    )}`,
+    rdns: 'app.governance.simulated',
+  },
+  provider: simulatedWallet,
+}
+
+let announced = false
+
+// Offer the simulated wallet next to installed ones; it reports account switches made in the simulator panel
+export const announceSimulatedWallet = () => {
+  if (announced || typeof window === 'undefined') return
+  announced = true
+
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: Object.freeze(SIMULATED_WALLET) }))
+  }
+  window.addEventListener('eip6963:requestProvider', announce)
+  announce()
+
+  lastAccount = getSimulatedAccount().address
+  subscribeToSimulatedChain(() => {
+    const { address } = getSimulatedAccount()
+    if (address === lastAccount) return
+    lastAccount = address
+    emitWallet('accountsChanged', [address])
+  })
+}
\ No newline at end of file
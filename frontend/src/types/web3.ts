@@ -1,173 +1,351 @@
-import { ethers } from 'ethers'
-
-// Network configuration
-export interface NetworkConfig {
-  chainId: number
-  name: string
-  rpcUrl: string
-  blockExplorer: string
-  nativeCurrency: {
-    name: string
-    symbol: string
-    decimals: number
-  }
-}
-
-// Wallet state
-export interface WalletState {
-  account: string | null
-  chainId: number | null
-  isConnected: boolean
-  isConnecting: boolean
-  error: string | null
-  balance: string | null
-}
-
-// Contract interaction state
-export interface ContractState {
-  contract: ethers.Contract | null
-  isLoading: boolean
-  error: string | null
-}
-
-// Proposal type
-export enum ProposalType {
-  BOARD = 0,
-  BUDGET = 1,
-  MERGER = 2,
-  DIVIDEND = 3,
-  BYLAW = 4,
-  STRATEGIC = 5
-}
-
-export const ProposalTypeLabels = {
-  [ProposalType.BOARD]: 'Board Election',
-  [ProposalType.BUDGET]: 'Budget Approval',
-  [ProposalType.MERGER]: 'Merger & Acquisition',
-  [ProposalType.DIVIDEND]: 'Dividend Distribution',
-  [ProposalType.BYLAW]: 'Bylaw Amendment',
-  [ProposalType.STRATEGIC]: 'Strategic Decision'
-}
-
-// Proposal state
-export interface Proposal {
-  id: number
-  proposalType: ProposalType
-  title: string
-  description: string
-  proposer: string
-  deadline: number
-  active: boolean
-  forVotes: number
-  againstVotes: number
-  threshold: number
-  hasVoted?: boolean
-  isExpired?: boolean
-  isPassed?: boolean
-}
-
-// Shareholder information
-export interface Shareholder {
-  address: string
-  shares: number
-  name: string
-  active: boolean
-}
-
-// Company information
-export interface CompanyInfo {
-  name: string
-  symbol: string
-  totalShares: number
-  totalShareholders: number
-  boardMembers: string[]
-}
-
-// Transaction state
-export interface TransactionState {
-  hash?: string
-  status: 'idle' | 'pending' | 'success' | 'error'
-  error?: string
-}
-
-// Vote choice
-export enum VoteChoice {
-  ABSTAIN = 0,
-  FOR = 1,
-  AGAINST = 2
-}
-
-export const VoteChoiceLabels = {
-  [VoteChoice.ABSTAIN]: 'Abstain',
-  [VoteChoice.FOR]: 'For',
-  [VoteChoice.AGAINST]: 'Against'
-}
-
-// Web3 Provider interface
-export interface Web3ProviderContext {
-  // Wallet state
-  wallet: WalletState
-  
-  // Contract state
-  contract: ContractState
-  
-  // Wallet operations
-  connectWallet: () => Promise<void>
-  disconnectWallet: () => void
-  switchToSepolia: () => Promise<void>
-  
-  // Contract operations
-  getBalance: () => Promise<string>
-  refreshWallet: () => Promise<void>
-}
-
-// Error type
-export class Web3Error extends Error {
-  constructor(
-    message: string,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message)
-    this.name = 'Web3Error'
-  }
-}
-
-// Common Web3 error codes
-export enum Web3ErrorCode {
-  USER_REJECTED = 'USER_REJECTED',
-  NETWORK_ERROR = 'NETWORK_ERROR',
-  CONTRACT_ERROR = 'CONTRACT_ERROR',
-  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
-  ALREADY_VOTED = 'ALREADY_VOTED',
-  NOT_AUTHORIZED = 'NOT_AUTHORIZED',
-  PROPOSAL_EXPIRED = 'PROPOSAL_EXPIRED'
-}
-
-// MetaMask specific errors
-export interface MetaMaskError {
-  code: number
-  message: string
-  data?: any
-}
-
-// Event types
-export interface ProposalCreatedEvent {
-  proposalId: number
-  proposer: string
-  title: string
-  proposalType: ProposalType
-}
-
-export interface VoteCastEvent {
-  proposalId: number
-  voter: string
-  choice: VoteChoice
-  weight: number
-}
-
-export interface ShareholderRegisteredEvent {
-  shareholder: string
-  shares: number
-  name: string
+import type { GovernanceAdapter } from '@/contracts/adapters/types'
+
+// Network configuration
+export interface NetworkConfig {
+  chainId: number
+  name: string
+  rpcUrl: string
+  // WebSocket endpoint for live contract events; block polling over rpcUrl when unset
+  wsUrl?: string
+  // Empty for networks without a public explorer (local Hardhat)
+  blockExplorer: string
+  nativeCurrency: {
+    name: string
+    symbol: string
+    decimals: number
+  }
+  // Governance contract deployed on this network; empty when not deployed
+  contractAddress: string
+  // Block the contract was deployed in; event indexing starts here. 0 when unknown, which
+  // only local chains may leave: the indexer will not scan a public chain from genesis.
+  deploymentBlock: number
+  // Unix time of the deployment, recorded when only that is known; the indexer then looks up
+  // the block mined shortly before it
+  deployedAt?: number
+}
+
+// Written to deployments/<network>.json by scripts/deploy-ultimate.js
+export interface DeploymentManifest {
+  chainId: number
+  network: string
+  contractName: string
+  variant: string
+  address: string
+  deploymentBlock: number
+  deployer: string
+  transactionHash: string
+  // keccak256 of the contract's sorted human-readable ABI fragments, one per line
+  abiHash: string
+  // keccak256 of the runtime bytecode read back after deployment
+  codeHash: string
+  deployedAt: string
+}
+
+// EIP-1193 provider injected by a browser wallet
+export interface EIP1193Provider {
+  isMetaMask?: boolean
+  request: (request: { method: string; params?: any[] }) => Promise<any>
+  on: (event: string, callback: (...args: any[]) => void) => void
+  removeListener: (event: string, callback: (...args: any[]) => void) => void
+}
+
+// Wallet metadata announced through EIP-6963
+export interface EIP6963ProviderInfo {
+  uuid: string
+  name: string
+  // Data URI of the wallet icon
+  icon: string
+  // Reverse-DNS identifier, stable across sessions (e.g. io.metamask)
+  rdns: string
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo
+  provider: EIP1193Provider
+}
+
+// Wallet state
+export interface WalletState {
+  account: string | null
+  chainId: number | null
+  isConnected: boolean
+  isConnecting: boolean
+  // Silently reconnecting the previous session on page load
+  isRestoring: boolean
+  error: string | null
+  balance: string | null
+}
+
+// Contract interaction state
+export interface ContractState {
+  contract: GovernanceAdapter | null
+  // Network the contract instance reads from
+  chainId: number | null
+  // Connected through the public RPC rather than a wallet signer
+  readOnly: boolean
+  isLoading: boolean
+  error: string | null
+  // Mismatches between the contract and this network's deployment manifest
+  deploymentWarnings: string[]
+}
+
+// Proposal type
+export enum ProposalType {
+  BOARD = 0,
+  BUDGET = 1,
+  MERGER = 2,
+  DIVIDEND = 3,
+  BYLAW = 4,
+  STRATEGIC = 5
+}
+
+export const ProposalTypeLabels = {
+  [ProposalType.BOARD]: 'Board Election',
+  [ProposalType.BUDGET]: 'Budget Approval',
+  [ProposalType.MERGER]: 'Merger & Acquisition',
+  [ProposalType.DIVIDEND]: 'Dividend Distribution',
+  [ProposalType.BYLAW]: 'Bylaw Amendment',
+  [ProposalType.STRATEGIC]: 'Strategic Decision'
+}
+
+// Proposal state
+export interface Proposal {
+  id: number
+  proposalType: ProposalType
+  title: string
+  description: string
+  proposer: string
+  startTime: number
+  deadline: number
+  active: boolean
+  executed: boolean
+  forVotes: number
+  againstVotes: number
+  threshold: number
+  hasVoted?: boolean
+  isExpired?: boolean
+  isPassed?: boolean
+  // Sample proposal from demo mode; it does not exist on-chain
+  isDemo?: boolean
+}
+
+// Final tally of a finalized proposal
+export interface ProposalResults {
+  proposalId: number
+  forVotes: number
+  againstVotes: number
+  abstainVotes: number
+  passed: boolean
+}
+
+// Shareholder information
+export interface Shareholder {
+  address: string
+  shares: number
+  name: string
+  active: boolean
+}
+
+// Roles the governance contracts check: onlyOwner, onlyBoard and registered shareholders
+export type AccountRole = 'owner' | 'board' | 'shareholder'
+
+// All false without a connected account
+export interface AccountRoles {
+  isOwner: boolean
+  isBoardMember: boolean
+  isShareholder: boolean
+  shares: number
+}
+
+// Company information
+export interface CompanyInfo {
+  name: string
+  symbol: string
+  totalShares: number
+  totalShareholders: number
+  boardMembers: string[]
+}
+
+export type TransactionKind = 'vote' | 'createProposal' | 'addShareholder' | 'finalizeProposal'
+
+// pending: sent, not mined; mined: included, awaiting confirmations
+export type TransactionStatus = 'pending' | 'mined' | 'confirmed' | 'failed' | 'replaced' | 'cancelled'
+
+// A submitted transaction, persisted so it can be followed across reloads
+export interface TransactionState {
+  hash: string
+  kind: TransactionKind
+  description: string
+  proposalId: number | null
+  chainId: number
+  // Fields needed to recognise a replacement with the same nonce
+  from: string
+  nonce: number
+  to: string | null
+  data: string
+  value: string
+  // Chain head when the transaction was sent; replacement scans start here
+  startBlock: number
+  status: TransactionStatus
+  submittedAt: number
+  blockNumber?: number
+  // Hash of the transaction that took this one's nonce
+  replacedBy?: string
+  error?: string
+}
+
+// Vote choice
+export enum VoteChoice {
+  ABSTAIN = 0,
+  FOR = 1,
+  AGAINST = 2
+}
+
+export const VoteChoiceLabels = {
+  [VoteChoice.ABSTAIN]: 'Abstain',
+  [VoteChoice.FOR]: 'For',
+  [VoteChoice.AGAINST]: 'Against'
+}
+
+// Web3 Provider interface
+export interface Web3ProviderContext {
+  // Wallet state
+  wallet: WalletState
+  
+  // Contract state
+  contract: ContractState
+  
+  // Network the app is working against: the wallet's chain when connected, otherwise the preferred network
+  network: NetworkConfig
+  supportedNetworks: NetworkConfig[]
+  
+  // Injected wallets discovered in the browser, and the one in use
+  wallets: EIP6963ProviderDetail[]
+  activeWallet: EIP6963ProviderInfo | null
+  isWalletPickerOpen: boolean
+  openWalletPicker: () => void
+  closeWalletPicker: () => void
+  
+  // Wallet operations
+  // Without an rdns the picker opens unless exactly one wallet is installed
+  connectWallet: (rdns?: string) => Promise<void>
+  disconnectWallet: () => void
+  // Switches the wallet when connected, otherwise the read-only network
+  switchNetwork: (chainId: number) => Promise<void>
+  
+  // Contract operations
+  getBalance: () => Promise<string>
+  refreshWallet: () => Promise<void>
+
+  // Governance events received since the contract loaded, newest first
+  activity: GovernanceActivity[]
+  // How those events arrive; null until a contract is loaded
+  eventTransport: EventTransport | null
+
+  // On-chain roles of the connected account, re-read when the account changes
+  roles: AccountRoles
+  rolesLoading: boolean
+  hasRole: (role: AccountRole) => boolean
+  refreshRoles: () => Promise<void>
+}
+
+// Where the voting page reads proposals from and sends votes to: the governance
+// contract, or the in-memory sample data of demo mode
+export interface ProposalSource {
+  isDemo: boolean
+  getActiveProposals: () => Proposal[]
+  loadProposal: (id: number) => Promise<Proposal | null>
+  hasVoted: (id: number) => Promise<boolean>
+  castVote: (id: number, choice: VoteChoice) => Promise<boolean>
+}
+
+export interface DemoDataContext {
+  isDemoMode: boolean
+  setDemoMode: (enabled: boolean) => void
+  source: ProposalSource
+}
+
+// Error type
+export class Web3Error extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public details?: any
+  ) {
+    super(message)
+    this.name = 'Web3Error'
+  }
+}
+
+// Common Web3 error codes
+export enum Web3ErrorCode {
+  USER_REJECTED = 'USER_REJECTED',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  CONTRACT_ERROR = 'CONTRACT_ERROR',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  ALREADY_VOTED = 'ALREADY_VOTED',
+  NOT_AUTHORIZED = 'NOT_AUTHORIZED',
+  PROPOSAL_EXPIRED = 'PROPOSAL_EXPIRED',
+  // Contract reverts; values match the ERROR_MESSAGES keys
+  NOT_BOARD_MEMBER = 'NOT_BOARD_MEMBER',
+  NOT_SHAREHOLDER = 'NOT_SHAREHOLDER',
+  PROPOSAL_NOT_ACTIVE = 'PROPOSAL_NOT_ACTIVE',
+  INVALID_PROPOSAL_ID = 'INVALID_PROPOSAL_ID',
+  VOTING_NOT_ENDED = 'VOTING_NOT_ENDED',
+  NOT_FINALIZED = 'NOT_FINALIZED',
+  ALREADY_REGISTERED = 'ALREADY_REGISTERED'
+}
+
+// MetaMask specific errors
+export interface MetaMaskError {
+  code: number
+  message: string
+  data?: any
+}
+
+// Event types
+// Block metadata recorded for every indexed event
+export interface IndexedEventMeta {
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  timestamp: number
+}
+
+export interface ProposalCreatedEvent extends IndexedEventMeta {
+  proposalId: number
+  proposer: string
+  title: string
+  proposalType: ProposalType
+}
+
+export interface VoteCastEvent extends IndexedEventMeta {
+  proposalId: number
+  voter: string
+  // null when the contract keeps ballots confidential
+  choice: VoteChoice | null
+  weight: number
+}
+
+export interface ShareholderRegisteredEvent extends IndexedEventMeta {
+  shareholder: string
+  shares: number
+  name: string
+}
+
+export type EventTransport = 'websocket' | 'polling'
+
+// A live contract event, as shown in the activity feed
+export interface GovernanceActivity {
+  // transactionHash:logIndex
+  id: string
+  kind: 'vote' | 'proposal' | 'shareholder'
+  proposalId: number | null
+  // Voter or shareholder; null for new proposals
+  account: string | null
+  // null when the contract keeps ballots confidential
+  choice: VoteChoice | null
+  blockNumber: number
+  transactionHash: string
+  receivedAt: number
 }
\ No newline at end of file
@@ -1,134 +1,221 @@
-import { NetworkConfig } from '@/types/web3'
-
-// Contract address
-export const CONTRACT_ADDRESS = (import.meta as any).env?.VITE_CONTRACT_ADDRESS || '0x7c04dD380e26B56899493ec7A654EdEf108A2414'
-
-// Sepolia Testnet Configuration  
-export const SEPOLIA_CONFIG: NetworkConfig = {
-  chainId: 11155111, // 0xaa36a7 in hex
-  name: 'Sepolia Testnet',
-  rpcUrl: (import.meta as any).env?.VITE_RPC_URL || 'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-  blockExplorer: 'https://sepolia.etherscan.io',
-  nativeCurrency: {
-    name: 'Sepolia Ether',
-    symbol: 'SEP',
-    decimals: 18
-  }
-}
-
-// Supported networks
-export const SUPPORTED_NETWORKS: Record<number, NetworkConfig> = {
-  [SEPOLIA_CONFIG.chainId]: SEPOLIA_CONFIG
-}
-
-// Contract ABI - exported from CorporateGovernanceUltimate.sol
-export const CONTRACT_ABI = [
-  // Company management
-  "function initCompany(string memory _name, uint256 _shares) external",
-  "function companyName() public view returns (string memory)",
-  "function totalShares() public view returns (uint256)",
-  "function initialized() public view returns (bool)",
-  
-  // Board management
-  "function addBoard(address _member) external",
-  "function isBoardMember(address _member) external view returns (bool)",
-  
-  // Shareholder management
-  "function addShareholder(address _addr, uint32 _shares, string memory _name) external",
-  "function registerShareholderPlain(address _addr, uint32 _shares, string memory, string memory _name) external",
-  "function getShareholderInfo(address _addr) external view returns (bool, uint32, string memory, string memory, bool)",
-  
-  // Proposal management
-  "function createProposal(uint8 _type, string memory _title, uint256 _days) external returns (uint256)",
-  "function getTotalProposals() external view returns (uint256)",
-  "function getProposalBasic(uint256 _id) external view returns (uint8, string memory, address)",
-  "function getProposalStatus(uint256 _id) external view returns (uint256, bool, uint32)",
-  "function getProposalInfo(uint256 _id) external view returns (uint256, uint8, string memory, string memory, address, uint256, uint256, bool, bool, uint256, uint256)",
-  
-  // Voting
-  "function vote(uint256 _id, uint8 _choice) public",
-  "function castVotePlain(uint256 _id, uint8 _choice) external",
-  "function castConfidentialVote(uint256 _id, uint8 _choice) external",
-  "function voteConfidential(uint256 _id, uint8 _choice) external",
-  "function hasVotedOn(uint256 _id, address _voter) external view returns (bool)",
-  
-  // Proposal finalization
-  "function finalize(uint256 _id) public",
-  "function finalizeProposal(uint256 _id) external",
-  "function getResults(uint256 _id) public view returns (uint32, uint32, bool)",
-  "function getDecryptedResults(uint256 _id) external view returns (uint32, uint32, uint32, bool)",
-  
-  // Company info
-  "function getCompanyInfo() external view returns (string memory, string memory, string memory, uint256, uint256, address[] memory)",
-  
-  // Events
-  "event CompanyInit(string name)",
-  "event ShareholderAdd(address indexed addr)",
-  "event ProposalAdd(uint256 indexed id)",
-  "event VoteAdd(uint256 indexed id, address indexed voter)"
-] as const
-
-// Error Messages Mapping
-export const ERROR_MESSAGES: Record<string, string> = {
-  // MetaMask Errors
-  4001: 'User rejected the request',
-  4100: 'The requested method and/or account has not been authorized by the user',
-  4200: 'The provider does not support the requested method',
-  4900: 'The provider is disconnected from all chains',
-  4901: 'The provider is not connected to the requested chain',
-  
-  // Network Errors
-  'NETWORK_ERROR': 'Network connection error, please check your network settings',
-  'UNSUPPORTED_NETWORK': 'Unsupported network, please switch to Sepolia testnet',
-  
-  // Contract Errors
-  'EXECUTION_REVERTED': 'Transaction was reverted',
-  'INSUFFICIENT_FUNDS': 'Insufficient balance',
-  'GAS_LIMIT_EXCEEDED': 'Gas limit exceeded',
-  
-  // Business Logic Errors
-  'ALREADY_VOTED': 'You have already voted',
-  'NOT_BOARD_MEMBER': 'You are not a board member',
-  'NOT_SHAREHOLDER': 'You are not a shareholder',
-  'PROPOSAL_EXPIRED': 'Proposal has expired',
-  'PROPOSAL_NOT_ACTIVE': 'Proposal is not active',
-  'INVALID_PROPOSAL_ID': 'Invalid proposal ID'
-}
-
-// Gas limit configuration
-export const GAS_LIMITS = {
-  VOTE: 100000,
-  CREATE_PROPOSAL: 200000,
-  ADD_SHAREHOLDER: 150000,
-  INIT_COMPANY: 300000
-}
-
-// Application configuration
-export const APP_CONFIG = {
-  name: (import.meta as any).env?.VITE_APP_NAME || 'Corporate Governance DApp',
-  description: (import.meta as any).env?.VITE_APP_DESCRIPTION || 'Confidential Shareholder Voting - Privacy-focused Corporate Decision System',
-  version: '1.0.0'
-}
-
-// Time constants
-export const TIME_CONSTANTS = {
-  BLOCK_TIME: 12, // seconds
-  CONFIRMATION_BLOCKS: 2,
-  POLLING_INTERVAL: 5000, // ms
-  RETRY_DELAY: 1000, // ms
-  MAX_RETRIES: 3
-}
-
-// UI configuration
-export const UI_CONFIG = {
-  TOAST_DURATION: 4000,
-  LOADING_DELAY: 300,
-  ANIMATION_DURATION: 300
-}
-
-// Local storage keys
-export const STORAGE_KEYS = {
-  LAST_CONNECTED_ACCOUNT: 'lastConnectedAccount',
-  PREFERRED_NETWORK: 'preferredNetwork',
-  USER_PREFERENCES: 'userPreferences'
+import { NetworkConfig } from '@/types/web3'
+import { getDeploymentManifest } from '@/contracts/deploymentManifest'
+
+// Manifests written by the deploy script fill in networks left unset in the environment
+const SEPOLIA_DEPLOYMENT = getDeploymentManifest(11155111)
+const HOLESKY_DEPLOYMENT = getDeploymentManifest(17000)
+const HARDHAT_DEPLOYMENT = getDeploymentManifest(1337)
+
+// Sepolia contract the app ships with, deployed 2025-09-14T06:03:25Z (see ultimate-deployment.json)
+const DEFAULT_CONTRACT_ADDRESS = '0x7c04dD380e26B56899493ec7A654EdEf108A2414'
+const DEFAULT_CONTRACT_DEPLOYED_AT = 1757829805
+
+// Contract address on Sepolia
+export const CONTRACT_ADDRESS = (import.meta as any).env?.VITE_CONTRACT_ADDRESS || SEPOLIA_DEPLOYMENT?.address || DEFAULT_CONTRACT_ADDRESS
+
+// Governance contract variant at CONTRACT_ADDRESS (ultimate | final | super | optimized).
+// Left empty, the variant is detected from the deployed bytecode.
+export const GOVERNANCE_VARIANT: string = (import.meta as any).env?.VITE_GOVERNANCE_VARIANT || ''
+
+// Start in demo mode, with sample proposals instead of the contract's (toggle on the voting page)
+export const DEMO_DATA_DEFAULT = (import.meta as any).env?.VITE_DEMO_DATA === 'true'
+
+// Offer the in-browser simulated chain (select it with VITE_NETWORK_ID=21325)
+export const SIMULATED_CHAIN_ENABLED = (import.meta as any).env?.VITE_SIMULATED_CHAIN === 'true'
+
+// Block the Sepolia contract was deployed in; event indexing starts here
+export const DEPLOYMENT_BLOCK = Number((import.meta as any).env?.VITE_DEPLOYMENT_BLOCK || SEPOLIA_DEPLOYMENT?.deploymentBlock || 0)
+
+// Sepolia Testnet Configuration  
+export const SEPOLIA_CONFIG: NetworkConfig = {
+  chainId: 11155111, // 0xaa36a7 in hex
+  name: 'Sepolia Testnet',
+  rpcUrl: (import.meta as any).env?.VITE_RPC_URL || 'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
+  wsUrl: (import.meta as any).env?.VITE_WS_URL || undefined,
+  blockExplorer: 'https://sepolia.etherscan.io',
+  nativeCurrency: {
+    name: 'Sepolia Ether',
+    symbol: 'SEP',
+    decimals: 18
+  },
+  contractAddress: CONTRACT_ADDRESS,
+  deploymentBlock: DEPLOYMENT_BLOCK,
+  deployedAt: CONTRACT_ADDRESS.toLowerCase() === DEFAULT_CONTRACT_ADDRESS.toLowerCase() ? DEFAULT_CONTRACT_DEPLOYED_AT : undefined
+}
+
+// Holesky Testnet Configuration (staging)
+export const HOLESKY_CONFIG: NetworkConfig = {
+  chainId: 17000, // 0x4268 in hex
+  name: 'Holesky Testnet',
+  rpcUrl: (import.meta as any).env?.VITE_HOLESKY_RPC_URL || 'https://ethereum-holesky-rpc.publicnode.com',
+  wsUrl: (import.meta as any).env?.VITE_HOLESKY_WS_URL || undefined,
+  blockExplorer: 'https://holesky.etherscan.io',
+  nativeCurrency: {
+    name: 'Holesky Ether',
+    symbol: 'HOL',
+    decimals: 18
+  },
+  contractAddress: (import.meta as any).env?.VITE_HOLESKY_CONTRACT_ADDRESS || HOLESKY_DEPLOYMENT?.address || '',
+  deploymentBlock: Number((import.meta as any).env?.VITE_HOLESKY_DEPLOYMENT_BLOCK || HOLESKY_DEPLOYMENT?.deploymentBlock || 0)
+}
+
+// Local Hardhat node (chainId from hardhat.config.js and hardhat.config.corporate.js)
+export const HARDHAT_CONFIG: NetworkConfig = {
+  chainId: 1337, // 0x539 in hex
+  name: 'Hardhat Local',
+  rpcUrl: (import.meta as any).env?.VITE_LOCALHOST_RPC_URL || 'http://127.0.0.1:8545',
+  wsUrl: (import.meta as any).env?.VITE_LOCALHOST_WS_URL || undefined,
+  blockExplorer: '',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18
+  },
+  contractAddress: (import.meta as any).env?.VITE_LOCALHOST_CONTRACT_ADDRESS || HARDHAT_DEPLOYMENT?.address || '',
+  deploymentBlock: HARDHAT_DEPLOYMENT?.deploymentBlock ?? 0
+}
+
+// In-browser simulated chain with the Ultimate contract pre-deployed, no RPC needed
+export const SIMULATED_CONFIG: NetworkConfig = {
+  chainId: 21325,
+  name: 'Simulated Chain',
+  rpcUrl: '',
+  blockExplorer: '',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18
+  },
+  contractAddress: SIMULATED_CHAIN_ENABLED ? '0x5FbDB2315678afecb367f032d93F642f64180aa3' : '',
+  deploymentBlock: 0
+}
+
+// Supported networks: every known network with a governance contract deployed
+export const SUPPORTED_NETWORKS: Record<number, NetworkConfig> = Object.fromEntries(
+  [SEPOLIA_CONFIG, HOLESKY_CONFIG, HARDHAT_CONFIG, SIMULATED_CONFIG]
+    .filter((network) => network.contractAddress)
+    .map((network) => [network.chainId, network])
+)
+
+// Network used for read-only browsing and for switching wallets on an unsupported chain
+export const DEFAULT_NETWORK: NetworkConfig =
+  SUPPORTED_NETWORKS[Number((import.meta as any).env?.VITE_NETWORK_ID)] || SEPOLIA_CONFIG
+
+// Error Messages Mapping
+export const ERROR_MESSAGES: Record<string, string> = {
+  // MetaMask Errors
+  4001: 'User rejected the request',
+  4100: 'The requested method and/or account has not been authorized by the user',
+  4200: 'The provider does not support the requested method',
+  4900: 'The provider is disconnected from all chains',
+  4901: 'The provider is not connected to the requested chain',
+  
+  // Network Errors
+  'NETWORK_ERROR': 'Network connection error, please check your network settings',
+  'UNSUPPORTED_NETWORK': 'Unsupported network, please switch to Sepolia testnet',
+  
+  // Contract Errors
+  'EXECUTION_REVERTED': 'Transaction was reverted',
+  'INSUFFICIENT_FUNDS': 'Insufficient balance',
+  'GAS_LIMIT_EXCEEDED': 'Gas limit exceeded',
+  
+  // Business Logic Errors
+  'ALREADY_VOTED': 'You have already voted',
+  'NOT_BOARD_MEMBER': 'You are not a board member',
+  'NOT_SHAREHOLDER': 'You are not a shareholder',
+  'PROPOSAL_EXPIRED': 'Proposal has expired',
+  'PROPOSAL_NOT_ACTIVE': 'Proposal is not active',
+  'INVALID_PROPOSAL_ID': 'Invalid proposal ID',
+  'VOTING_NOT_ENDED': 'Voting on this proposal has not ended yet',
+  'NOT_FINALIZED': 'Results are available once the proposal is finalized',
+  'ALREADY_REGISTERED': 'This address is already a registered shareholder'
+}
+
+// Gas limit configuration
+export const GAS_LIMITS = {
+  VOTE: 100000,
+  CREATE_PROPOSAL: 200000,
+  ADD_SHAREHOLDER: 150000,
+  INIT_COMPANY: 300000
+}
+
+// Application configuration
+export const APP_CONFIG = {
+  name: (import.meta as any).env?.VITE_APP_NAME || 'Corporate Governance DApp',
+  description: (import.meta as any).env?.VITE_APP_DESCRIPTION || 'Confidential Shareholder Voting - Privacy-focused Corporate Decision System',
+  version: '1.0.0'
+}
+
+// Time constants
+export const TIME_CONSTANTS = {
+  BLOCK_TIME: 12, // seconds
+  CONFIRMATION_BLOCKS: 2,
+  POLLING_INTERVAL: 5000, // ms
+  RETRY_DELAY: 1000, // ms
+  MAX_RETRIES: 3
+}
+
+// Event indexer configuration
+export const INDEXER_CONFIG = {
+  LOG_CHUNK_SIZE: 2000, // blocks per eth_getLogs request
+  DEPLOYMENT_TIME_MARGIN: 60 * 60, // seconds before deployedAt that indexing starts
+  MAX_HISTORICAL_READS: 200, // registrations read at past blocks per sync
+  DB_PREFIX: 'governance-index'
+}
+
+// Transaction manager
+export const TRANSACTION_CONFIG = {
+  MAX_RECORDS: 20, // most recent settled transactions kept in the tray; unsettled ones are never dropped
+  RESUME_TIMEOUT_MS: 5 * 60 * 1000, // wait for the receipt of a transaction no longer in the tray
+  GAS_BUFFER_PERCENT: 20 // added on top of the gas estimate
+}
+
+// Live event feed
+export const ACTIVITY_CONFIG = {
+  MAX_ITEMS: 50 // most recent events kept for the activity feed
+}
+
+// Governance analytics
+export const ANALYTICS_CONFIG = {
+  QUORUM_PERCENT: 50, // share-weight turnout counted as reaching quorum
+  ENGAGEMENT_LIST_SIZE: 5 // shareholders shown as most and least engaged
+}
+
+// View-call batching (Multicall3 is deployed at the same address on most chains)
+export const MULTICALL_CONFIG = {
+  ADDRESS: '0xcA11bde05977b3631167028862bE2a173976CA11',
+  BATCH_WINDOW_MS: 10, // calls issued within this window share one request
+  MAX_CALLS: 100 // calls per aggregate3 or JSON-RPC batch
+}
+
+// Shareholder registry limits (shares are uint32 on-chain)
+export const SHAREHOLDER_LIMITS = {
+  MAX_SHARES: 4294967295,
+  MAX_NAME_LENGTH: 64
+}
+
+// Proposal creation form
+export const PROPOSAL_LIMITS = {
+  MAX_TITLE_LENGTH: 100,
+  DEFAULT_DURATION_DAYS: 7,
+  DURATION_OPTIONS: [1, 3, 7, 14, 30]
+}
+
+// UI configuration
+export const UI_CONFIG = {
+  TOAST_DURATION: 4000,
+  LOADING_DELAY: 300,
+  ANIMATION_DURATION: 300
+}
+
+// Local storage keys
+export const STORAGE_KEYS = {
+  LAST_CONNECTED_ACCOUNT: 'lastConnectedAccount',
+  LAST_WALLET_RDNS: 'lastWalletRdns',
+  PREFERRED_NETWORK: 'preferredNetwork',
+  DEMO_MODE: 'demoMode',
+  SIMULATED_CHAIN: 'simulatedChain',
+  SHAREHOLDER_IMPORT: 'shareholderImport',
+  TRANSACTIONS: 'transactions',
+  USER_PREFERENCES: 'userPreferences'
 } as const
\ No newline at end of file
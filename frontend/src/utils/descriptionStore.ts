@@ -0,0 +1,105 @@
+import { ethers } from 'ethers'
+import { deleteRecords, getRecord, openDatabase, putRecords } from '@/indexer/indexedDb'
+
+// Proposal descriptions kept off-chain in the browser, addressed by their keccak256 hash.
+// createProposal on the Ultimate contract takes no description, so the text lives here
+// and is linked to the proposal ID once the creation transaction is mined.
+
+const DB_NAME = 'governance-descriptions'
+const DB_VERSION = 1
+
+const STORES = {
+  descriptions: 'descriptions',
+  links: 'links',
+} as const
+
+interface DescriptionRecord {
+  hash: string
+  text: string
+  createdAt: number
+}
+
+interface DescriptionLink {
+  chainId: number
+  contractAddress: string
+  proposalId: number
+  hash: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+      { name: STORES.descriptions, keyPath: 'hash' },
+      { name: STORES.links, keyPath: ['chainId', 'contractAddress', 'proposalId'] },
+    ]).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+export const hashDescription = (text: string): string => ethers.id(text)
+
+// Store a description and return its content hash
+export const saveDescription = async (text: string): Promise<string> => {
+  const hash = hashDescription(text)
+  const db = await getDatabase()
+  await putRecords(db, {
+    [STORES.descriptions]: [{ hash, text, createdAt: Date.now() } satisfies DescriptionRecord],
+  })
+  return hash
+}
+
+export const getDescription = async (hash: string): Promise<string | null> => {
+  const db = await getDatabase()
+  const record = await getRecord<DescriptionRecord>(db, STORES.descriptions, hash)
+  // Content addressing: ignore anything that no longer matches its key
+  return record && hashDescription(record.text) === hash ? record.text : null
+}
+
+export const linkDescription = async (
+  chainId: number,
+  contractAddress: string,
+  proposalId: number,
+  hash: string
+): Promise<void> => {
+  const db = await getDatabase()
+  await putRecords(db, {
+    [STORES.links]: [{
+      chainId,
+      contractAddress: contractAddress.toLowerCase(),
+      proposalId,
+      hash,
+    } satisfies DescriptionLink],
+  })
+}
+
+// Description linked to a proposal, or null when none was stored in this browser
+export const getLinkedDescription = async (
+  chainId: number,
+  contractAddress: string,
+  proposalId: number
+): Promise<string | null> => {
+  try {
+    const db = await getDatabase()
+    const link = await getRecord<DescriptionLink>(
+      db,
+      STORES.links,
+      [chainId, contractAddress.toLowerCase(), proposalId]
+    )
+    return link ? getDescription(link.hash) : null
+  } catch (error) {
+    console.warn(`Could not read the description of proposal ${proposalId}:`, error)
+    return null
+  }
+}
+
+// Drop the description links of one deployment; the descriptions themselves stay addressable
+export const unlinkDescriptions = async (chainId: number, contractAddress: string): Promise<void> => {
+  const db = await getDatabase()
+  const address = contractAddress.toLowerCase()
+  await deleteRecords(db, STORES.links, IDBKeyRange.bound([chainId, address], [chainId, address, []]))
+}
\ No newline at end of file
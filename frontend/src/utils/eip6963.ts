@@ -0,0 +1,94 @@
+import { EIP6963ProviderDetail } from '@/types/web3'
+
+// EIP-6963 multi injected provider discovery
+
+declare global {
+  interface WindowEventMap {
+    'eip6963:announceProvider': CustomEvent<EIP6963ProviderDetail>
+  }
+}
+
+// Identifier used for wallets that only inject window.ethereum
+export const LEGACY_WALLET_RDNS = 'injected'
+
+let announcedWallets: EIP6963ProviderDetail[] = []
+let legacyWallets: EIP6963ProviderDetail[] = []
+let discoveryStarted = false
+const listeners = new Set<() => void>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+const handleAnnounce = (event: CustomEvent<EIP6963ProviderDetail>) => {
+  const { info, provider } = event.detail
+  if (announcedWallets.some((wallet) => wallet.info.uuid === info.uuid)) return
+
+  announcedWallets = [...announcedWallets, Object.freeze({ info, provider })]
+  notify()
+}
+
+// Listen for wallet announcements and ask installed wallets to announce themselves
+export const startWalletDiscovery = (): void => {
+  if (discoveryStarted || typeof window === 'undefined') return
+  discoveryStarted = true
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce)
+  window.dispatchEvent(new Event('eip6963:requestProvider'))
+}
+
+// Wallets that predate EIP-6963 are exposed as a single legacy entry
+const getLegacyWallets = (): EIP6963ProviderDetail[] => {
+  const provider = typeof window !== 'undefined' ? window.ethereum : undefined
+  if (!provider) return []
+
+  if (legacyWallets[0]?.provider !== provider) {
+    legacyWallets = [{
+      info: {
+        uuid: LEGACY_WALLET_RDNS,
+        name: provider.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+        icon: '',
+        rdns: LEGACY_WALLET_RDNS,
+      },
+      provider,
+    }]
+  }
+  return legacyWallets
+}
+
+// Returns a stable array between announcements, suitable for useSyncExternalStore
+export const getDiscoveredWallets = (): EIP6963ProviderDetail[] =>
+  announcedWallets.length > 0 ? announcedWallets : getLegacyWallets()
+
+export const subscribeToWallets = (listener: () => void): (() => void) => {
+  startWalletDiscovery()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const findWallet = (rdns: string): EIP6963ProviderDetail | undefined => {
+  startWalletDiscovery()
+  return getDiscoveredWallets().find((wallet) => wallet.info.rdns === rdns)
+}
+
+// Wallet extensions may announce after the page has loaded
+export const waitForWallet = (
+  rdns: string,
+  timeoutMs: number = 500
+): Promise<EIP6963ProviderDetail | undefined> => {
+  const wallet = findWallet(rdns)
+  if (wallet) return Promise.resolve(wallet)
+
+  return new Promise((resolve) => {
+    const finish = (found: EIP6963ProviderDetail | undefined) => {
+      clearTimeout(timer)
+      unsubscribe()
+      resolve(found)
+    }
+    const timer = setTimeout(() => finish(findWallet(rdns)), timeoutMs)
+    const unsubscribe = subscribeToWallets(() => {
+      const found = findWallet(rdns)
+      if (found) finish(found)
+    })
+  })
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { Proposal, ProposalCreatedEvent, ProposalType, ShareholderRegisteredEvent, VoteCastEvent } from '@/types/web3'
+
+// Company-wide aggregates derived from proposals and the indexed vote and registration
+// events. All times are unix seconds; turnout is measured in share weight.
+
+export interface DateRange {
+  from: number | null
+  to: number | null
+}
+
+export const ALL_TIME: DateRange = { from: null, to: null }
+
+export interface ProposalTurnout {
+  proposalId: number
+  title: string
+  openedAt: number | null
+  voters: number
+  votedWeight: number
+  // Voted weight as a share of the registered weight
+  turnoutPercent: number
+}
+
+export interface TypePassRate {
+  proposalType: ProposalType
+  // Closed proposals whose outcome is known
+  decided: number
+  passed: number
+  passRate: number
+}
+
+export interface ShareholderEngagement {
+  shareholder: string
+  name: string
+  shares: number
+  votes: number
+  eligible: number
+  participationPercent: number
+}
+
+// Passed, failed, or null while open or when the tally is confidential
+export type OutcomeResolver = (proposal: Proposal) => boolean | null
+
+// When voting opened, by proposal ID
+export type OpeningTimes = Map<number, number>
+
+export const isInRange = (timestamp: number, range: DateRange): boolean =>
+  (range.from === null || timestamp >= range.from) && (range.to === null || timestamp <= range.to)
+
+// Ultimate's getProposalInfo reports a startTime of 0, so voting is taken to open at the
+// ProposalAdd block; a non-zero startTime covers proposals the indexer has not reached yet
+export const getOpeningTimes = (proposals: Proposal[], created: ProposalCreatedEvent[]): OpeningTimes => {
+  const times: OpeningTimes = new Map(created.map((event) => [event.proposalId, event.timestamp]))
+  proposals.forEach((p) => {
+    if (!times.has(p.id) && p.startTime > 0) times.set(p.id, p.startTime)
+  })
+  return times
+}
+
+// Proposals are placed in a range by when voting opened; those with no known opening
+// time only count towards the all-time view
+export const filterProposalsByRange = (
+  proposals: Proposal[],
+  range: DateRange,
+  openingTimes: OpeningTimes
+): Proposal[] =>
+  proposals.filter((p) => {
+    const openedAt = openingTimes.get(p.id)
+    return openedAt === undefined ? range.from === null && range.to === null : isInRange(openedAt, range)
+  })
+
+const groupVotes = (votes: VoteCastEvent[]): Map<number, VoteCastEvent[]> => {
+  const grouped = new Map<number, VoteCastEvent[]>()
+  votes.forEach((vote) => {
+    const list = grouped.get(vote.proposalId) ?? []
+    list.push(vote)
+    grouped.set(vote.proposalId, list)
+  })
+  return grouped
+}
+
+// In opening order; proposals with no known opening time come last, by ID
+export const getTurnoutByProposal = (
+  proposals: Proposal[],
+  votes: VoteCastEvent[],
+  registeredWeight: number,
+  openingTimes: OpeningTimes
+): ProposalTurnout[] => {
+  const grouped = groupVotes(votes)
+  const openedAt = (p: Proposal) => openingTimes.get(p.id) ?? Infinity
+  return [...proposals]
+    .sort((a, b) => openedAt(a) - openedAt(b) || a.id - b.id)
+    .map((p) => {
+      const proposalVotes = grouped.get(p.id) ?? []
+      const votedWeight = proposalVotes.reduce((total, vote) => total + vote.weight, 0)
+      return {
+        proposalId: p.id,
+        title: p.title,
+        openedAt: openingTimes.get(p.id) ?? null,
+        voters: proposalVotes.length,
+        votedWeight,
+        turnoutPercent: registeredWeight > 0 ? Math.min((votedWeight / registeredWeight) * 100, 100) : 0,
+      }
+    })
+}
+
+export const getAverageTurnout = (turnout: ProposalTurnout[]): number =>
+  turnout.length > 0 ? turnout.reduce((total, t) => total + t.turnoutPercent, 0) / turnout.length : 0
+
+// Every type is listed, including ones without decided proposals
+export const getPassRateByType = (proposals: Proposal[], resolveOutcome: OutcomeResolver): TypePassRate[] => {
+  const types = Object.values(ProposalType).filter((value): value is ProposalType => typeof value === 'number')
+  return types.map((proposalType) => {
+    const outcomes = proposals
+      .filter((p) => p.proposalType === proposalType)
+      .map(resolveOutcome)
+      .filter((outcome): outcome is boolean => outcome !== null)
+    const passed = outcomes.filter(Boolean).length
+    return {
+      proposalType,
+      decided: outcomes.length,
+      passed,
+      passRate: outcomes.length > 0 ? (passed / outcomes.length) * 100 : 0,
+    }
+  })
+}
+
+// Time from voting opening to the vote that took turnout to quorumPercent, averaged over
+// the proposals that got there
+export const getTimeToQuorum = (
+  proposals: Proposal[],
+  votes: VoteCastEvent[],
+  registeredWeight: number,
+  quorumPercent: number,
+  openingTimes: OpeningTimes
+): { averageSeconds: number | null; reached: number } => {
+  if (registeredWeight <= 0) return { averageSeconds: null, reached: 0 }
+
+  const grouped = groupVotes(votes)
+  const durations: number[] = []
+  proposals.forEach((p) => {
+    const openedAt = openingTimes.get(p.id)
+    if (openedAt === undefined) return
+
+    let cumulative = 0
+    const quorumVote = [...(grouped.get(p.id) ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .find((vote) => {
+        cumulative += vote.weight
+        return cumulative * 100 >= quorumPercent * registeredWeight
+      })
+    if (quorumVote) durations.push(Math.max(quorumVote.timestamp - openedAt, 0))
+  })
+
+  return {
+    averageSeconds: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null,
+    reached: durations.length,
+  }
+}
+
+// A shareholder is eligible for proposals still open when it was (last) registered,
+// and for any it voted on. Most engaged first.
+export const getShareholderEngagement = (
+  shareholders: ShareholderRegisteredEvent[],
+  proposals: Proposal[],
+  votes: VoteCastEvent[]
+): ShareholderEngagement[] => {
+  const ids = new Set(proposals.map((p) => p.id))
+  const votedBy = new Map<string, Set<number>>()
+  votes.forEach((vote) => {
+    if (!ids.has(vote.proposalId)) return
+    const voter = vote.voter.toLowerCase()
+    const voted = votedBy.get(voter) ?? new Set<number>()
+    voted.add(vote.proposalId)
+    votedBy.set(voter, voted)
+  })
+
+  return shareholders
+    .map((s) => {
+      const voted = votedBy.get(s.shareholder.toLowerCase()) ?? new Set<number>()
+      const eligible = proposals.filter((p) => voted.has(p.id) || p.deadline >= s.timestamp).length
+      return {
+        shareholder: s.shareholder,
+        name: s.name,
+        shares: s.shares,
+        votes: voted.size,
+        eligible,
+        participationPercent: eligible > 0 ? (voted.size / eligible) * 100 : 0,
+      }
+    })
+    .sort((a, b) => b.participationPercent - a.participationPercent || b.shares - a.shares)
+}
+
+export const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
\ No newline at end of file
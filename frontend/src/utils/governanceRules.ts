@@ -0,0 +1,137 @@
+import { GovernanceVariant } from '@/contracts/adapters/types'
+import { Proposal, ProposalType } from '@/types/web3'
+
+// Pass/fail rules mirrored from the governance contracts.
+// A proposal passes when floor(forVotes * 100 / (forVotes + againstVotes)) is strictly
+// greater than its threshold. Abstentions do not count towards the total, and votes are
+// weighted by shares.
+
+// Per-type thresholds each contract assigns at proposal creation
+export const PROPOSAL_THRESHOLDS: Record<GovernanceVariant, Record<ProposalType, number>> = {
+  // CorporateGovernanceUltimate: 75 for mergers, 60 for budgets, 50 otherwise
+  ultimate: {
+    [ProposalType.BOARD]: 50,
+    [ProposalType.BUDGET]: 60,
+    [ProposalType.MERGER]: 75,
+    [ProposalType.DIVIDEND]: 50,
+    [ProposalType.BYLAW]: 50,
+    [ProposalType.STRATEGIC]: 50,
+  },
+  final: {
+    [ProposalType.BOARD]: 50,
+    [ProposalType.BUDGET]: 60,
+    [ProposalType.MERGER]: 75,
+    [ProposalType.DIVIDEND]: 50,
+    [ProposalType.BYLAW]: 75,
+    [ProposalType.STRATEGIC]: 60,
+  },
+  super: {
+    [ProposalType.BOARD]: 50,
+    [ProposalType.BUDGET]: 60,
+    [ProposalType.MERGER]: 75,
+    [ProposalType.DIVIDEND]: 50,
+    [ProposalType.BYLAW]: 75,
+    [ProposalType.STRATEGIC]: 60,
+  },
+  optimized: {
+    [ProposalType.BOARD]: 50,
+    [ProposalType.BUDGET]: 60,
+    [ProposalType.MERGER]: 75,
+    [ProposalType.DIVIDEND]: 50,
+    [ProposalType.BYLAW]: 75,
+    [ProposalType.STRATEGIC]: 60,
+  },
+}
+
+export interface Tally {
+  forVotes: number
+  againstVotes: number
+}
+
+export interface ProposalOutcome {
+  threshold: number
+  totalVotes: number
+  // Integer percentage the contract compares against the threshold
+  approvalPercent: number
+  passing: boolean
+  // Additional For weight needed to pass; 0 when already passing
+  votesToPass: number
+  // Against weight that would make a passing proposal fail; 0 when not passing
+  marginToFail: number
+  // Set once the remaining weight can no longer change the result
+  decided: 'passed' | 'failed' | null
+}
+
+export const getThreshold = (proposalType: ProposalType, variant: GovernanceVariant): number =>
+  PROPOSAL_THRESHOLDS[variant][proposalType] ?? 50
+
+// The threshold stored with the proposal wins; the table covers proposals read without one
+export const resolveThreshold = (proposal: Proposal, variant?: GovernanceVariant): number =>
+  proposal.threshold > 0 || !variant ? proposal.threshold : getThreshold(proposal.proposalType, variant)
+
+export const getApprovalPercent = ({ forVotes, againstVotes }: Tally): number => {
+  const total = forVotes + againstVotes
+  return total > 0 ? Math.floor((forVotes * 100) / total) : 0
+}
+
+export const isPassing = (tally: Tally, threshold: number): boolean =>
+  tally.forVotes + tally.againstVotes > 0 && getApprovalPercent(tally) > threshold
+
+// Smallest extra For weight x with floor((f + x) * 100 / (t + x)) > threshold
+export const getVotesToPass = (tally: Tally, threshold: number): number => {
+  if (isPassing(tally, threshold)) return 0
+  if (threshold >= 99) return Infinity
+
+  const total = tally.forVotes + tally.againstVotes
+  const needed = Math.ceil(((threshold + 1) * total - 100 * tally.forVotes) / (99 - threshold))
+  return Math.max(needed, total === 0 ? 1 : 0)
+}
+
+// Smallest extra Against weight y with floor(f * 100 / (t + y)) <= threshold
+export const getMarginToFail = (tally: Tally, threshold: number): number => {
+  if (!isPassing(tally, threshold)) return 0
+
+  const total = tally.forVotes + tally.againstVotes
+  return Math.floor((100 * tally.forVotes) / (threshold + 1)) - total + 1
+}
+
+// remainingWeight is the share weight that has not voted yet; pass 0 once voting has closed
+export const evaluateOutcome = (
+  tally: Tally,
+  threshold: number,
+  remainingWeight?: number
+): ProposalOutcome => {
+  const passing = isPassing(tally, threshold)
+  const votesToPass = getVotesToPass(tally, threshold)
+  const marginToFail = getMarginToFail(tally, threshold)
+
+  let decided: ProposalOutcome['decided'] = null
+  if (remainingWeight !== undefined) {
+    const remaining = Math.max(remainingWeight, 0)
+    if (passing && marginToFail > remaining) decided = 'passed'
+    else if (!passing && votesToPass > remaining) decided = 'failed'
+  }
+
+  return {
+    threshold,
+    totalVotes: tally.forVotes + tally.againstVotes,
+    approvalPercent: getApprovalPercent(tally),
+    passing,
+    votesToPass,
+    marginToFail,
+    decided,
+  }
+}
+
+export const evaluateProposal = (
+  proposal: Proposal,
+  variant?: GovernanceVariant,
+  remainingWeight?: number
+): ProposalOutcome =>
+  evaluateOutcome(proposal, resolveThreshold(proposal, variant), remainingWeight)
+
+// Text colour for an outcome
+export const getOutcomeColor = (outcome: ProposalOutcome): string => {
+  if (outcome.totalVotes === 0) return 'text-gray-400'
+  return outcome.passing ? 'text-green-400' : 'text-red-400'
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+// Every key starts with the deployment it was read from, so switching network or
+// contract never serves another deployment's data. Account-specific reads add the account.
+export const governanceKeys = {
+  deployment: (chainId: number | null, address: string | undefined) =>
+    ['governance', chainId, address?.toLowerCase() ?? null] as const,
+  company: (chainId: number | null, address: string | undefined) =>
+    [...governanceKeys.deployment(chainId, address), 'company'] as const,
+  proposals: (chainId: number | null, address: string | undefined) =>
+    [...governanceKeys.deployment(chainId, address), 'proposals'] as const,
+  proposal: (chainId: number | null, address: string | undefined, id: number) =>
+    [...governanceKeys.deployment(chainId, address), 'proposal', id] as const,
+  votedStatus: (chainId: number | null, address: string | undefined, account: string | null) =>
+    [...governanceKeys.deployment(chainId, address), 'voted', account?.toLowerCase() ?? null] as const,
+  shareholder: (chainId: number | null, address: string | undefined, shareholder: string | null) =>
+    [...governanceKeys.deployment(chainId, address), 'shareholder', shareholder?.toLowerCase() ?? null] as const,
+  roles: (chainId: number | null, address: string | undefined, account: string | null) =>
+    [...governanceKeys.deployment(chainId, address), 'roles', account?.toLowerCase() ?? null] as const,
+}
\ No newline at end of file
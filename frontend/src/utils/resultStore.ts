@@ -0,0 +1,58 @@
+import { deleteRecords, getAllRecords, openDatabase, putRecords } from '@/indexer/indexedDb'
+import { ProposalResults, ProposalType } from '@/types/web3'
+
+// Final results of finalized proposals, recorded in the browser once a board member has read them.
+// getResults is board-only, so the record keeps the outcome visible after the wallet changes.
+
+const DB_NAME = 'governance-results'
+const DB_VERSION = 1
+const STORE_NAME = 'results'
+
+export interface ProposalResultRecord extends ProposalResults {
+  chainId: number
+  contractAddress: string
+  proposalType: ProposalType
+  // Percentage of For votes the proposal had to exceed
+  threshold: number
+  recordedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, [
+      { name: STORE_NAME, keyPath: ['chainId', 'contractAddress', 'proposalId'] },
+    ]).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+export const saveResultRecord = async (record: ProposalResultRecord): Promise<void> => {
+  const db = await getDatabase()
+  await putRecords(db, {
+    [STORE_NAME]: [{ ...record, contractAddress: record.contractAddress.toLowerCase() }],
+  })
+}
+
+// Every recorded result for one deployment
+export const getResultRecords = async (
+  chainId: number,
+  contractAddress: string
+): Promise<ProposalResultRecord[]> => {
+  const db = await getDatabase()
+  const records = await getAllRecords<ProposalResultRecord>(db, STORE_NAME)
+  const address = contractAddress.toLowerCase()
+  return records.filter((record) => record.chainId === chainId && record.contractAddress === address)
+}
+
+// Forget every recorded result for one deployment
+export const clearResultRecords = async (chainId: number, contractAddress: string): Promise<void> => {
+  const db = await getDatabase()
+  const address = contractAddress.toLowerCase()
+  // Arrays sort after numbers, so this range covers every proposal ID
+  await deleteRecords(db, STORE_NAME, IDBKeyRange.bound([chainId, address], [chainId, address, []]))
+}
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { SHAREHOLDER_LIMITS, STORAGE_KEYS } from './constants'
+import { isValidAddress } from './web3'
+
+export interface ShareholderEntry {
+  address: string
+  shares: number
+  name: string
+}
+
+// Validate a registry entry before it is sent to addShareholder; returns an error message or null
+export const validateShareholderEntry = (entry: ShareholderEntry): string | null => {
+  if (!isValidAddress(entry.address)) {
+    return 'Invalid Ethereum address'
+  }
+  if (!Number.isInteger(entry.shares) || entry.shares <= 0) {
+    return 'Shares must be a positive whole number'
+  }
+  if (entry.shares > SHAREHOLDER_LIMITS.MAX_SHARES) {
+    return `Shares cannot exceed ${SHAREHOLDER_LIMITS.MAX_SHARES.toLocaleString()}`
+  }
+  if (!entry.name.trim()) {
+    return 'Name is required'
+  }
+  if (entry.name.length > SHAREHOLDER_LIMITS.MAX_NAME_LENGTH) {
+    return `Name cannot exceed ${SHAREHOLDER_LIMITS.MAX_NAME_LENGTH} characters`
+  }
+  return null
+}
+
+// Bulk CSV import
+
+// What a row will do to the on-chain register
+export type ImportAction = 'add' | 'update' | 'unchanged' | 'invalid'
+
+export type ImportRowStatus = 'pending' | 'submitted' | 'confirmed' | 'failed' | 'skipped'
+
+export interface ShareholderImportRow {
+  line: number
+  entry: ShareholderEntry
+  action: ImportAction
+  status: ImportRowStatus
+  // Registration currently on-chain, if any
+  current?: { shares: number; name: string }
+  error?: string
+  txHash?: string
+}
+
+export interface ShareholderImportQueue {
+  chainId: number
+  contractAddress: string
+  createdAt: number
+  rows: ShareholderImportRow[]
+}
+
+export interface ParsedShareholderRow {
+  line: number
+  entry: ShareholderEntry
+  error: string | null
+}
+
+// Split one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map((value) => value.trim())
+}
+
+// Parse "address,shares,name" rows; a leading header row is skipped
+export const parseShareholderCsv = (text: string): ParsedShareholderRow[] => {
+  const rows: ParsedShareholderRow[] = []
+  const seen = new Map<string, number>()
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    if (!raw.trim()) return
+
+    const [address = '', shares = '', ...nameParts] = splitCsvLine(raw)
+    if (rows.length === 0 && !isValidAddress(address) && /address/i.test(address)) return
+
+    const entry: ShareholderEntry = {
+      address,
+      shares: shares === '' ? NaN : Number(shares),
+      name: nameParts.join(',').trim(),
+    }
+
+    let error = validateShareholderEntry(entry)
+    if (!error) {
+      const key = address.toLowerCase()
+      const firstLine = seen.get(key)
+      if (firstLine !== undefined) {
+        error = `Duplicate of line ${firstLine}`
+      } else {
+        seen.set(key, line)
+      }
+    }
+
+    rows.push({ line, entry, error })
+  })
+
+  return rows
+}
+
+// Compare a parsed row with the shareholder currently registered on-chain
+export const diffShareholderRow = (
+  row: ParsedShareholderRow,
+  current: { shares: number; name: string } | null,
+  canUpdate: boolean
+): ShareholderImportRow => {
+  if (row.error) {
+    return { line: row.line, entry: row.entry, action: 'invalid', status: 'skipped', error: row.error }
+  }
+  if (!current) {
+    return { line: row.line, entry: row.entry, action: 'add', status: 'pending' }
+  }
+  if (current.shares === row.entry.shares && current.name === row.entry.name) {
+    return { line: row.line, entry: row.entry, action: 'unchanged', status: 'skipped', current }
+  }
+  if (!canUpdate) {
+    return {
+      line: row.line,
+      entry: row.entry,
+      action: 'invalid',
+      status: 'skipped',
+      current,
+      error: 'Already registered and this contract cannot update shareholders',
+    }
+  }
+  return { line: row.line, entry: row.entry, action: 'update', status: 'pending', current }
+}
+
+// Queues are persisted per contract so an interrupted import can be resumed
+const importQueueKey = (chainId: number, contractAddress: string) =>
+  `${STORAGE_KEYS.SHAREHOLDER_IMPORT}:${chainId}:${contractAddress.toLowerCase()}`
+
+export const loadImportQueue = (
+  chainId: number,
+  contractAddress: string
+): ShareholderImportQueue | null => {
+  try {
+    const stored = localStorage.getItem(importQueueKey(chainId, contractAddress))
+    return stored ? JSON.parse(stored) as ShareholderImportQueue : null
+  } catch (error) {
+    console.warn('Could not read saved shareholder import:', error)
+    return null
+  }
+}
+
+export const saveImportQueue = (queue: ShareholderImportQueue): void => {
+  localStorage.setItem(importQueueKey(queue.chainId, queue.contractAddress), JSON.stringify(queue))
+}
+
+export const clearImportQueue = (chainId: number, contractAddress: string): void => {
+  localStorage.removeItem(importQueueKey(chainId, contractAddress))
+}
\ No newline at end of file
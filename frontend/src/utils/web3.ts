@@ -1,293 +1,360 @@
-import { ethers } from 'ethers'
-import { MetaMaskError, NetworkConfig, Web3Error, Web3ErrorCode } from '@/types/web3'
-import { SEPOLIA_CONFIG, ERROR_MESSAGES } from './constants'
-
-// Check if MetaMask is available
-export const isMetaMaskInstalled = (): boolean => {
-  return typeof window !== 'undefined' && Boolean(window.ethereum?.isMetaMask)
-}
-
-// Get MetaMask provider
-export const getProvider = (): ethers.BrowserProvider | null => {
-  if (!isMetaMaskInstalled()) {
-    return null
-  }
-  return new ethers.BrowserProvider(window.ethereum!)
-}
-
-// Request account connection
-export const requestAccounts = async (): Promise<string[]> => {
-  if (!isMetaMaskInstalled()) {
-    throw new Web3Error('Please install MetaMask wallet', Web3ErrorCode.NETWORK_ERROR)
-  }
-  
-  try {
-    const accounts = await window.ethereum!.request({
-      method: 'eth_requestAccounts',
-    }) as string[]
-    
-    if (accounts.length === 0) {
-      throw new Web3Error('No available accounts found', Web3ErrorCode.USER_REJECTED)
-    }
-    
-    return accounts
-  } catch (error: any) {
-    if (error.code === 4001) {
-      throw new Web3Error('User rejected wallet connection', Web3ErrorCode.USER_REJECTED)
-    }
-    throw new Web3Error(`Failed to connect wallet: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
-  }
-}
-
-// Get current network ID
-export const getCurrentChainId = async (): Promise<number> => {
-  if (!isMetaMaskInstalled()) {
-    throw new Web3Error('MetaMask not installed', Web3ErrorCode.NETWORK_ERROR)
-  }
-  
-  const chainId = await window.ethereum!.request({
-    method: 'eth_chainId',
-  }) as string
-  
-  return parseInt(chainId, 16)
-}
-
-// Switch network
-export const switchToNetwork = async (networkConfig: NetworkConfig): Promise<void> => {
-  if (!isMetaMaskInstalled()) {
-    throw new Web3Error('MetaMask not installed', Web3ErrorCode.NETWORK_ERROR)
-  }
-  
-  const chainIdHex = `0x${networkConfig.chainId.toString(16)}`
-  
-  try {
-    // Try to switch to specified network
-    await window.ethereum!.request({
-      method: 'wallet_switchEthereumChain',
-      params: [{ chainId: chainIdHex }],
-    })
-  } catch (error: any) {
-    // If network doesn't exist, try to add network
-    if (error.code === 4902) {
-      try {
-        await window.ethereum!.request({
-          method: 'wallet_addEthereumChain',
-          params: [
-            {
-              chainId: chainIdHex,
-              chainName: networkConfig.name,
-              rpcUrls: [networkConfig.rpcUrl],
-              blockExplorerUrls: [networkConfig.blockExplorer],
-              nativeCurrency: networkConfig.nativeCurrency,
-            },
-          ],
-        })
-      } catch (addError: any) {
-        throw new Web3Error(
-          `Failed to add network: ${addError.message}`,
-          Web3ErrorCode.NETWORK_ERROR
-        )
-      }
-    } else {
-      throw new Web3Error(
-        `Failed to switch network: ${error.message}`,
-        Web3ErrorCode.NETWORK_ERROR
-      )
-    }
-  }
-}
-
-// Switch to Sepolia testnet
-export const switchToSepolia = async (): Promise<void> => {
-  await switchToNetwork(SEPOLIA_CONFIG)
-}
-
-// Get account balance
-export const getBalance = async (address: string): Promise<string> => {
-  const provider = getProvider()
-  if (!provider) {
-    throw new Web3Error('Unable to get provider', Web3ErrorCode.NETWORK_ERROR)
-  }
-  
-  try {
-    const balance = await provider.getBalance(address)
-    return ethers.formatEther(balance)
-  } catch (error: any) {
-    throw new Web3Error(`Failed to get balance: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
-  }
-}
-
-// Format address (show first 6 and last 4 characters)
-export const formatAddress = (address: string): string => {
-  if (!address || address.length < 10) return address
-  return `${address.slice(0, 6)}...${address.slice(-4)}`
-}
-
-// Validate Ethereum address
-export const isValidAddress = (address: string): boolean => {
-  try {
-    return ethers.isAddress(address)
-  } catch {
-    return false
-  }
-}
-
-// Format Ether amount
-export const formatEther = (value: string | bigint): string => {
-  try {
-    const formatted = ethers.formatEther(value)
-    const num = parseFloat(formatted)
-    
-    if (num < 0.0001 && num > 0) {
-      return '< 0.0001'
-    }
-    
-    return num.toFixed(4)
-  } catch {
-    return '0.0000'
-  }
-}
-
-// Parse Ether amount
-export const parseEther = (value: string): bigint => {
-  try {
-    return ethers.parseEther(value)
-  } catch (error: any) {
-    throw new Web3Error(`Failed to parse amount: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
-  }
-}
-
-// Handle MetaMask errors
-export const handleMetaMaskError = (error: MetaMaskError): Web3Error => {
-  const message = ERROR_MESSAGES[error.code] || error.message || 'Unknown error'
-  
-  // Map common error codes
-  let code: Web3ErrorCode = Web3ErrorCode.NETWORK_ERROR
-  
-  switch (error.code) {
-    case 4001:
-      code = Web3ErrorCode.USER_REJECTED
-      break
-    case 4100:
-      code = Web3ErrorCode.NOT_AUTHORIZED
-      break
-    case -32602:
-      code = Web3ErrorCode.CONTRACT_ERROR
-      break
-    default:
-      if (error.message?.includes('insufficient funds')) {
-        code = Web3ErrorCode.INSUFFICIENT_BALANCE
-      }
-      break
-  }
-  
-  return new Web3Error(message, code, error)
-}
-
-// Wait for transaction confirmation
-export const waitForTransaction = async (
-  hash: string,
-  confirmations: number = 2
-): Promise<ethers.TransactionReceipt> => {
-  const provider = getProvider()
-  if (!provider) {
-    throw new Web3Error('Unable to get provider', Web3ErrorCode.NETWORK_ERROR)
-  }
-  
-  try {
-    const receipt = await provider.waitForTransaction(hash, confirmations)
-    if (!receipt) {
-      throw new Web3Error('Transaction receipt not found', Web3ErrorCode.NETWORK_ERROR)
-    }
-    return receipt
-  } catch (error: any) {
-    throw new Web3Error(
-      `Failed to wait for transaction confirmation: ${error.message}`,
-      Web3ErrorCode.NETWORK_ERROR
-    )
-  }
-}
-
-// Estimate gas fee
-export const estimateGas = async (
-  contract: ethers.Contract,
-  method: string,
-  args: any[] = []
-): Promise<bigint> => {
-  try {
-    return await contract[method].estimateGas(...args)
-  } catch (error: any) {
-    throw new Web3Error(
-      `Failed to estimate gas fee: ${error.message}`,
-      Web3ErrorCode.CONTRACT_ERROR
-    )
-  }
-}
-
-// Format timestamp
-export const formatTimestamp = (timestamp: number): string => {
-  const date = new Date(timestamp * 1000)
-  return date.toLocaleString('en-US', {
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-  })
-}
-
-// Calculate remaining time
-export const getRemainingTime = (deadline: number): string => {
-  const now = Math.floor(Date.now() / 1000)
-  const remaining = deadline - now
-  
-  if (remaining <= 0) {
-    return 'Expired'
-  }
-  
-  const days = Math.floor(remaining / (24 * 60 * 60))
-  const hours = Math.floor((remaining % (24 * 60 * 60)) / (60 * 60))
-  const minutes = Math.floor((remaining % (60 * 60)) / 60)
-  
-  if (days > 0) {
-    return `${days}d ${hours}h`
-  } else if (hours > 0) {
-    return `${hours}h ${minutes}m`
-  } else {
-    return `${minutes}m`
-  }
-}
-
-// Check if mobile device
-export const isMobile = (): boolean => {
-  return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
-    navigator.userAgent
-  )
-}
-
-// Get block explorer link
-export const getExplorerLink = (hash: string, type: 'tx' | 'address' = 'tx'): string => {
-  return `${SEPOLIA_CONFIG.blockExplorer}/${type}/${hash}`
-}
-
-// Delay function
-export const delay = (ms: number): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms))
-}
-
-// Retry logic
-export const retry = async <T>(
-  fn: () => Promise<T>,
-  retries: number = 3,
-  delayMs: number = 1000
-): Promise<T> => {
-  try {
-    return await fn()
-  } catch (error) {
-    if (retries > 0) {
-      await delay(delayMs)
-      return retry(fn, retries - 1, delayMs * 2) // Exponential backoff
-    }
-    throw error
-  }
+import { ethers } from 'ethers'
+import { EIP1193Provider, MetaMaskError, NetworkConfig, Web3Error, Web3ErrorCode } from '@/types/web3'
+import { createSimulatedReadProvider } from '@/simulator/simulatedProviders'
+import { DEFAULT_NETWORK, SUPPORTED_NETWORKS, ERROR_MESSAGES, STORAGE_KEYS, MULTICALL_CONFIG, TIME_CONSTANTS, SIMULATED_CONFIG } from './constants'
+
+// Injected provider of the wallet the user picked
+let activeProvider: EIP1193Provider | null = null
+
+export const setActiveProvider = (provider: EIP1193Provider | null): void => {
+  activeProvider = provider
+}
+
+export const getActiveProvider = (): EIP1193Provider | null => activeProvider
+
+const requireActiveProvider = (): EIP1193Provider => {
+  if (!activeProvider) {
+    throw new Web3Error('No wallet selected', Web3ErrorCode.NETWORK_ERROR)
+  }
+  return activeProvider
+}
+
+// Get the selected wallet's provider
+export const getProvider = (): ethers.BrowserProvider | null => {
+  if (!activeProvider) {
+    return null
+  }
+  return new ethers.BrowserProvider(activeProvider)
+}
+
+// Look up a supported network by chain ID
+export const getNetworkConfig = (chainId: number | null): NetworkConfig | undefined => {
+  return chainId === null ? undefined : SUPPORTED_NETWORKS[chainId]
+}
+
+export const isSupportedChain = (chainId: number | null): boolean => {
+  return getNetworkConfig(chainId) !== undefined
+}
+
+// Network picked in the network selector, falling back to the default network
+export const getPreferredNetwork = (): NetworkConfig => {
+  const stored = Number(localStorage.getItem(STORAGE_KEYS.PREFERRED_NETWORK))
+  return getNetworkConfig(stored) ?? DEFAULT_NETWORK
+}
+
+export const savePreferredNetwork = (chainId: number): void => {
+  localStorage.setItem(STORAGE_KEYS.PREFERRED_NETWORK, String(chainId))
+}
+
+// Shared JSON-RPC providers for browsing without a wallet, one per network
+const readOnlyProviders = new Map<number, ethers.JsonRpcApiProvider>()
+
+export const getReadOnlyProvider = (network: NetworkConfig = DEFAULT_NETWORK): ethers.JsonRpcApiProvider => {
+  let provider = readOnlyProviders.get(network.chainId)
+  if (!provider) {
+    // The simulated chain runs in the page and has no RPC endpoint
+    provider = network.chainId === SIMULATED_CONFIG.chainId ? createSimulatedReadProvider() : new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, {
+      staticNetwork: true,
+      // Concurrent calls are sent as one JSON-RPC batch when Multicall3 is unavailable
+      batchMaxCount: MULTICALL_CONFIG.MAX_CALLS,
+      pollingInterval: TIME_CONSTANTS.POLLING_INTERVAL,
+    })
+    readOnlyProviders.set(network.chainId, provider)
+  }
+  return provider
+}
+
+// Shared providers for following contract events, one per network
+const eventProviders = new Map<number, ethers.JsonRpcApiProvider>()
+
+// Pushes events over the network's WebSocket endpoint when configured, otherwise polls
+// new blocks over its JSON-RPC endpoint every TIME_CONSTANTS.POLLING_INTERVAL
+export const getEventProvider = (network: NetworkConfig): ethers.JsonRpcApiProvider => {
+  let provider = eventProviders.get(network.chainId)
+  if (!provider) {
+    provider = network.wsUrl
+      ? new ethers.WebSocketProvider(network.wsUrl, network.chainId, { staticNetwork: true })
+      : getReadOnlyProvider(network)
+    eventProviders.set(network.chainId, provider)
+  }
+  return provider
+}
+
+// Request account connection
+export const requestAccounts = async (): Promise<string[]> => {
+  const provider = requireActiveProvider()
+  
+  try {
+    const accounts = await provider.request({
+      method: 'eth_requestAccounts',
+    }) as string[]
+    
+    if (accounts.length === 0) {
+      throw new Web3Error('No available accounts found', Web3ErrorCode.USER_REJECTED)
+    }
+    
+    return accounts
+  } catch (error: any) {
+    if (error.code === 4001) {
+      throw new Web3Error('User rejected wallet connection', Web3ErrorCode.USER_REJECTED)
+    }
+    throw new Web3Error(`Failed to connect wallet: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
+  }
+}
+
+// Get current network ID
+export const getCurrentChainId = async (): Promise<number> => {
+  const chainId = await requireActiveProvider().request({
+    method: 'eth_chainId',
+  }) as string
+  
+  return parseInt(chainId, 16)
+}
+
+// Switch network
+export const switchToNetwork = async (networkConfig: NetworkConfig): Promise<void> => {
+  const provider = requireActiveProvider()
+  
+  const chainIdHex = `0x${networkConfig.chainId.toString(16)}`
+  
+  try {
+    // Try to switch to specified network
+    await provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: chainIdHex }],
+    })
+  } catch (error: any) {
+    // If network doesn't exist, try to add network
+    if (error.code === 4902) {
+      try {
+        await provider.request({
+          method: 'wallet_addEthereumChain',
+          params: [
+            {
+              chainId: chainIdHex,
+              chainName: networkConfig.name,
+              rpcUrls: [networkConfig.rpcUrl],
+              blockExplorerUrls: networkConfig.blockExplorer ? [networkConfig.blockExplorer] : undefined,
+              nativeCurrency: networkConfig.nativeCurrency,
+            },
+          ],
+        })
+      } catch (addError: any) {
+        throw new Web3Error(
+          `Failed to add network: ${addError.message}`,
+          Web3ErrorCode.NETWORK_ERROR
+        )
+      }
+    } else {
+      throw new Web3Error(
+        `Failed to switch network: ${error.message}`,
+        Web3ErrorCode.NETWORK_ERROR
+      )
+    }
+  }
+}
+
+// Get account balance
+export const getBalance = async (address: string): Promise<string> => {
+  const provider = getProvider()
+  if (!provider) {
+    throw new Web3Error('Unable to get provider', Web3ErrorCode.NETWORK_ERROR)
+  }
+  
+  try {
+    const balance = await provider.getBalance(address)
+    return ethers.formatEther(balance)
+  } catch (error: any) {
+    throw new Web3Error(`Failed to get balance: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
+  }
+}
+
+// Format address (show first 6 and last 4 characters)
+export const formatAddress = (address: string): string => {
+  if (!address || address.length < 10) return address
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+// Validate Ethereum address
+export const isValidAddress = (address: string): boolean => {
+  try {
+    return ethers.isAddress(address)
+  } catch {
+    return false
+  }
+}
+
+// Format Ether amount
+export const formatEther = (value: string | bigint): string => {
+  try {
+    const formatted = ethers.formatEther(value)
+    const num = parseFloat(formatted)
+    
+    if (num < 0.0001 && num > 0) {
+      return '< 0.0001'
+    }
+    
+    return num.toFixed(4)
+  } catch {
+    return '0.0000'
+  }
+}
+
+// Parse Ether amount
+export const parseEther = (value: string): bigint => {
+  try {
+    return ethers.parseEther(value)
+  } catch (error: any) {
+    throw new Web3Error(`Failed to parse amount: ${error.message}`, Web3ErrorCode.NETWORK_ERROR)
+  }
+}
+
+// Handle MetaMask errors
+export const handleMetaMaskError = (error: MetaMaskError): Web3Error => {
+  const message = ERROR_MESSAGES[error.code] || error.message || 'Unknown error'
+  
+  // Map common error codes
+  let code: Web3ErrorCode = Web3ErrorCode.NETWORK_ERROR
+  
+  switch (error.code) {
+    case 4001:
+      code = Web3ErrorCode.USER_REJECTED
+      break
+    case 4100:
+      code = Web3ErrorCode.NOT_AUTHORIZED
+      break
+    case -32602:
+      code = Web3ErrorCode.CONTRACT_ERROR
+      break
+    default:
+      if (error.message?.includes('insufficient funds')) {
+        code = Web3ErrorCode.INSUFFICIENT_BALANCE
+      }
+      break
+  }
+  
+  return new Web3Error(message, code, error)
+}
+
+// Wait for transaction confirmation
+export const waitForTransaction = async (
+  hash: string,
+  confirmations: number = 2
+): Promise<ethers.TransactionReceipt> => {
+  const provider = getProvider()
+  if (!provider) {
+    throw new Web3Error('Unable to get provider', Web3ErrorCode.NETWORK_ERROR)
+  }
+  
+  try {
+    const receipt = await provider.waitForTransaction(hash, confirmations)
+    if (!receipt) {
+      throw new Web3Error('Transaction receipt not found', Web3ErrorCode.NETWORK_ERROR)
+    }
+    return receipt
+  } catch (error: any) {
+    throw new Web3Error(
+      `Failed to wait for transaction confirmation: ${error.message}`,
+      Web3ErrorCode.NETWORK_ERROR
+    )
+  }
+}
+
+// Estimate gas fee
+export const estimateGas = async (
+  contract: ethers.Contract,
+  method: string,
+  args: any[] = []
+): Promise<bigint> => {
+  try {
+    return await contract[method].estimateGas(...args)
+  } catch (error: any) {
+    throw new Web3Error(
+      `Failed to estimate gas fee: ${error.message}`,
+      Web3ErrorCode.CONTRACT_ERROR
+    )
+  }
+}
+
+// Format timestamp
+export const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp * 1000)
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// Seconds the contract's chain runs ahead of the wall clock; only the simulated chain time travels
+let chainClockOffset = 0
+
+export const setChainClockOffset = (seconds: number): void => {
+  chainClockOffset = seconds
+}
+
+// Current time on the contract's chain, unix seconds; compare deadlines against this
+export const getChainTime = (): number => Math.floor(Date.now() / 1000) + chainClockOffset
+
+// Calculate remaining time
+export const getRemainingTime = (deadline: number): string => {
+  const now = getChainTime()
+  const remaining = deadline - now
+  
+  if (remaining <= 0) {
+    return 'Expired'
+  }
+  
+  const days = Math.floor(remaining / (24 * 60 * 60))
+  const hours = Math.floor((remaining % (24 * 60 * 60)) / (60 * 60))
+  const minutes = Math.floor((remaining % (60 * 60)) / 60)
+  
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  } else if (hours > 0) {
+    return `${hours}h ${minutes}m`
+  } else {
+    return `${minutes}m`
+  }
+}
+
+// Check if mobile device
+export const isMobile = (): boolean => {
+  return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
+    navigator.userAgent
+  )
+}
+
+// Get block explorer link; null on networks without an explorer
+export const getExplorerLink = (
+  hash: string,
+  type: 'tx' | 'address' = 'tx',
+  network: NetworkConfig = DEFAULT_NETWORK
+): string | null => {
+  if (!network.blockExplorer) return null
+  return `${network.blockExplorer}/${type}/${hash}`
+}
+
+// Delay function
+export const delay = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Retry logic
+export const retry = async <T>(
+  fn: () => Promise<T>,
+  retries: number = 3,
+  delayMs: number = 1000
+): Promise<T> => {
+  try {
+    return await fn()
+  } catch (error) {
+    if (retries > 0) {
+      await delay(delayMs)
+      return retry(fn, retries - 1, delayMs * 2) // Exponential backoff
+    }
+    throw error
+  }
 }
\ No newline at end of file
@@ -14,13 +14,15 @@ module.exports = {
     }
   },
   networks: {
+    // chainId 1337 matches hardhat.config.js and the frontend's Hardhat Local network
     hardhat: {
-      chainId: 31337
+      chainId: 1337
     },
     localhost: {
       url: "http://127.0.0.1:8545",
-      chainId: 31337,
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : []
+      chainId: 1337,
+      // Without a key, use the accounts of the running `hardhat node`
+      ...(process.env.PRIVATE_KEY ? { accounts: [process.env.PRIVATE_KEY] } : {})
     },
     sepolia: {
       url: process.env.SEPOLIA_URL || "https://sepolia.infura.io/v3/YOUR_KEY",
@@ -1,4 +1,6 @@
 const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
 
 async function main() {
     console.log("🎯 Deploying ULTIMATE Corporate Governance...");
@@ -14,6 +16,7 @@ async function main() {
     await contract.waitForDeployment();
     
     const contractAddress = await contract.getAddress();
+    const deploymentReceipt = await contract.deploymentTransaction().wait();
     console.log(`✅ SUCCESS! Contract deployed at: ${contractAddress}`);
 
     // Quick setup
@@ -45,18 +48,30 @@ async function main() {
     console.log(`公司: ${await contract.companyName()}`);
     console.log(`总提案数: ${await contract.getTotalProposals()}`);
 
-    const fs = require('fs');
-    fs.writeFileSync('./ultimate-deployment.json', JSON.stringify({
-        contractAddress,
-        network: network.name,
-        contractName: "CorporateGovernanceUltimate",
-        theme: "机密股东投票 - 企业决策隐私投票",
-        stackOptimized: true,
-        compilationGuaranteed: true,
-        deployedAt: new Date().toISOString()
-    }, null, 2));
-    
-    console.log(`\n💾 部署信息已保存至: ultimate-deployment.json`);
+    // Deployment manifest read by the frontend (frontend/src/contracts/deploymentManifest.ts).
+    // The in-process hardhat network is gone once this script exits, so it gets none.
+    if (network.name !== "hardhat") {
+        const manifest = {
+            chainId: Number((await ethers.provider.getNetwork()).chainId),
+            network: network.name,
+            contractName: "CorporateGovernanceUltimate",
+            variant: "ultimate",
+            address: contractAddress,
+            deploymentBlock: deploymentReceipt.blockNumber,
+            deployer: deployer.address,
+            transactionHash: deploymentReceipt.hash,
+            // Sorted human-readable fragments, hashed the same way by hashContractAbi in the frontend
+            abiHash: ethers.id([...contract.interface.format()].sort().join("\n")),
+            codeHash: ethers.keccak256(await ethers.provider.getCode(contractAddress)),
+            deployedAt: new Date().toISOString()
+        };
+        const manifestPath = path.join(__dirname, "..", "deployments", `${network.name}.json`);
+        fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+        console.log(`\n💾 部署清单已保存至: deployments/${network.name}.json`);
+    } else {
+        console.log(`\n⚠️  hardhat 内存网络不保存部署清单，请使用 --network localhost`);
+    }
     
     console.log(`\n🔥 系统特性:`);
     console.log(`• ✅ 100%编译保证 - Stack Too Deep问题已解决`);
@@ -66,10 +81,9 @@ async function main() {
     console.log(`• ✅ 专业UI兼容 - 前端接口完整`);
     
     console.log(`\n🚀 立即使用:`);
-    console.log(`1. npm run serve`);
-    console.log(`2. 更新前端 CONTRACT_ADDRESS: ${contractAddress}`);
-    console.log(`3. 访问: http://localhost:3018/corporate-governance.html`);
-    console.log(`4. 访问: http://localhost:3018/board-dashboard.html`);
+    console.log(`1. cd frontend && npm run dev`);
+    console.log(`2. 前端从部署清单读取合约地址，无需手动更新 (chainId ${Number((await ethers.provider.getNetwork()).chainId)})`);
+    console.log(`3. 访问: http://localhost:3000`);
     
     console.log(`\n🎯 这是最终的、绝对可以编译成功的版本！`);
 }
@@ -2,117 +2,77 @@ const { ethers } = require("hardhat");
 const fs = require("fs");
 const path = require("path");
 
+const PROPOSAL_TYPES = ["Board", "Budget", "Merger", "Dividend", "Bylaw", "Strategic"];
+
 async function main() {
   console.log("Starting contract interaction script...");
 
-  // Get signers
-  const [deployer, creator, contributor1, contributor2] = await ethers.getSigners();
-  
-  // Load deployment info
-  const deploymentFile = path.join(__dirname, "..", "deployments", `${hre.network.name}.json`);
-  
-  if (!fs.existsSync(deploymentFile)) {
-    console.error("Deployment file not found. Please deploy contracts first.");
+  // Load the manifest written by scripts/deploy-ultimate.js
+  const manifestFile = path.join(__dirname, "..", "deployments", `${hre.network.name}.json`);
+
+  if (!fs.existsSync(manifestFile)) {
+    console.error(`Deployment manifest not found: ${manifestFile}`);
+    console.error("Deploy first with: npm run deploy:ultimate:local");
+    process.exitCode = 1;
     return;
   }
 
-  const deploymentInfo = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
-  const privacyPadAddress = deploymentInfo.contracts.PrivacyPad.address;
-
-  // Get contract instance
-  const PrivacyPad = await ethers.getContractFactory("PrivacyPad");
-  const privacyPad = PrivacyPad.attach(privacyPadAddress);
-
-  console.log("PrivacyPad contract loaded at:", privacyPadAddress);
-  console.log("Contract owner:", await privacyPad.owner());
-
-  // Example interactions
-  console.log("\n=== Creating Sample Campaign ===");
-  
-  const createTx = await privacyPad.connect(creator).createCampaign(
-    "Revolutionary Privacy Project",
-    "A groundbreaking project that will change how we think about privacy in blockchain",
-    ethers.parseEther("50"), // 50 ETH target
-    30 // 30 days duration
-  );
-  
-  await createTx.wait();
-  console.log("Campaign created successfully!");
-
-  // Get campaign details
-  const campaign = await privacyPad.getCampaign(1);
-  console.log("\nCampaign Details:");
-  console.log(`- ID: ${campaign.id}`);
-  console.log(`- Creator: ${campaign.creator}`);
-  console.log(`- Title: ${campaign.title}`);
-  console.log(`- Target Amount: ${ethers.formatEther(campaign.targetAmount)} ETH`);
-  console.log(`- Deadline: ${new Date(Number(campaign.deadline) * 1000).toLocaleString()}`);
-  console.log(`- Is Active: ${campaign.isActive}`);
-
-  console.log("\n=== Making Encrypted Contributions ===");
-
-  // Contributor 1 makes an encrypted contribution
-  const encryptedAmount1 = ethers.keccak256(ethers.toUtf8Bytes("secret_contribution_5_eth"));
-  const contributionTx1 = await privacyPad.connect(contributor1).makeEncryptedContribution(
-    1, // campaign ID
-    encryptedAmount1,
-    { value: ethers.parseEther("5") }
-  );
-  
-  await contributionTx1.wait();
-  console.log("Contributor 1 made encrypted contribution of 5 ETH");
-
-  // Contributor 2 makes an encrypted contribution
-  const encryptedAmount2 = ethers.keccak256(ethers.toUtf8Bytes("secret_contribution_10_eth"));
-  const contributionTx2 = await privacyPad.connect(contributor2).makeEncryptedContribution(
-    1, // campaign ID
-    encryptedAmount2,
-    { value: ethers.parseEther("10") }
-  );
-  
-  await contributionTx2.wait();
-  console.log("Contributor 2 made encrypted contribution of 10 ETH");
-
-  // Check encrypted contributions
-  const contribution1 = await privacyPad.encryptedContributions(1);
-  const contribution2 = await privacyPad.encryptedContributions(2);
-  
-  console.log("\nEncrypted Contributions:");
-  console.log(`Contribution 1 - Contributor: ${contribution1.contributor}, Encrypted: ${contribution1.encryptedAmount}`);
-  console.log(`Contribution 2 - Contributor: ${contribution2.contributor}, Encrypted: ${contribution2.encryptedAmount}`);
+  const manifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
 
-  console.log("\n=== Revealing Contributions ===");
-
-  // Reveal contributions
-  const revealTx1 = await privacyPad.connect(contributor1).revealContribution(1, ethers.parseEther("5"));
-  await revealTx1.wait();
-  console.log("Contributor 1 revealed contribution: 5 ETH");
-
-  const revealTx2 = await privacyPad.connect(contributor2).revealContribution(2, ethers.parseEther("10"));
-  await revealTx2.wait();
-  console.log("Contributor 2 revealed contribution: 10 ETH");
-
-  // Check updated campaign stats
-  const updatedCampaign = await privacyPad.getCampaign(1);
-  console.log("\nUpdated Campaign Stats:");
-  console.log(`- Total Raised: ${ethers.formatEther(updatedCampaign.totalRaised)} ETH`);
-  console.log(`- Contributors: ${updatedCampaign.contributorCount}`);
-  console.log(`- Progress: ${(Number(updatedCampaign.totalRaised) * 100 / Number(updatedCampaign.targetAmount)).toFixed(2)}%`);
-
-  // Get campaign contributors
-  const contributors = await privacyPad.getCampaignContributors(1);
-  console.log(`- Contributor addresses: ${contributors.join(", ")}`);
+  // Refuse to talk to whatever happens to live at the address now
+  const code = await ethers.provider.getCode(manifest.address);
+  if (code === "0x") {
+    console.error(`No contract at ${manifest.address}; the node was restarted since the deployment. Redeploy it.`);
+    process.exitCode = 1;
+    return;
+  }
+  if (ethers.keccak256(code) !== manifest.codeHash) {
+    console.error(`The bytecode at ${manifest.address} does not match the manifest from ${manifest.deployedAt}.`);
+    process.exitCode = 1;
+    return;
+  }
 
-  console.log("\n=== Platform Statistics ===");
-  console.log(`Total Campaigns: ${await privacyPad.getTotalCampaigns()}`);
-  console.log(`Total Contributions: ${await privacyPad.getTotalContributions()}`);
+  const governance = await ethers.getContractAt(manifest.contractName, manifest.address);
+  console.log(`${manifest.contractName} loaded at: ${manifest.address} (block ${manifest.deploymentBlock})`);
+  console.log("Contract owner:", await governance.owner());
+
+  console.log("\n=== Company ===");
+  const [name, , , totalShares, , boardMembers] = await governance.getCompanyInfo();
+  console.log(`- Name: ${name || "(not initialized)"}`);
+  console.log(`- Total shares: ${totalShares}`);
+  console.log(`- Board members: ${boardMembers.join(", ")}`);
+
+  console.log("\n=== Proposals ===");
+  const total = Number(await governance.getTotalProposals());
+  const signers = await ethers.getSigners();
+
+  for (let id = 1; id <= total; id++) {
+    const [proposalType, title, proposer] = await governance.getProposalBasic(id);
+    const [deadline, active, threshold] = await governance.getProposalStatus(id);
+    console.log(`#${id} ${title}`);
+    console.log(`  - Type: ${PROPOSAL_TYPES[Number(proposalType)] ?? proposalType}, threshold ${threshold}%`);
+    console.log(`  - Proposer: ${proposer}`);
+    console.log(`  - Deadline: ${new Date(Number(deadline) * 1000).toLocaleString()}`);
+    console.log(`  - Active: ${active}`);
+  }
 
-  // Show user-specific data
-  const creatorCampaigns = await privacyPad.getUserCampaigns(creator.address);
-  const contributor1Contributions = await privacyPad.getUserContributions(contributor1.address);
-  
-  console.log(`\nCreator's campaigns: ${creatorCampaigns.length}`);
-  console.log(`Contributor 1's contributions: ${contributor1Contributions.length}`);
+  // Cast a For vote from every local shareholder that has not voted on the newest open proposal
+  const latestBlock = await ethers.provider.getBlock("latest");
+  for (let id = total; id >= 1; id--) {
+    const [deadline, active] = await governance.getProposalStatus(id);
+    if (!active || Number(deadline) < latestBlock.timestamp) continue;
+
+    console.log(`\n=== Voting on proposal #${id} ===`);
+    for (const signer of signers) {
+      const [isShareholder, shares] = await governance.shareholders(signer.address);
+      if (!isShareholder || (await governance.hasVotedOn(id, signer.address))) continue;
+
+      const tx = await governance.connect(signer).vote(id, 1);
+      await tx.wait();
+      console.log(`${signer.address} voted For with ${shares} shares`);
+    }
+    break;
+  }
 
   console.log("\nInteraction script completed successfully!");
 }